@@ -0,0 +1,652 @@
+import Database from 'better-sqlite3';
+import {
+	existsSync,
+	readFileSync,
+	statSync,
+	writeFileSync,
+} from 'fs';
+import { parseArgs } from 'util';
+import { DatabaseManager } from './db/client.js';
+import { get_database_config } from './db/config.js';
+import {
+	apply_migrations,
+	get_migration_status,
+	migrations,
+} from './db/migrations/index.js';
+import {
+	GraphFormat,
+	ImportStrategy,
+	Observation,
+	Relation,
+	StatsPeriod,
+} from './types/index.js';
+
+interface CommandContext {
+	args: string[];
+	json: boolean;
+	namespace?: string;
+}
+
+interface Command {
+	usage: string;
+	description: string;
+	// Options besides --json and --namespace
+	options?: Record<
+		string,
+		{ type: 'string' | 'boolean'; short?: string }
+	>;
+	// Resolves to the exit code, when not 0
+	run: (
+		context: CommandContext,
+		values: Record<string, string | boolean | undefined>,
+	) => Promise<number | void>;
+}
+
+// Errors in how a command was called, reported with its usage
+class UsageError extends Error {}
+
+const GRAPH_FORMATS: GraphFormat[] = ['json', 'jsonl'];
+const STATS_PERIODS: StatsPeriod[] = ['day', 'week', 'month'];
+const IMPORT_STRATEGIES: ImportStrategy[] = [
+	'merge',
+	'skip_existing',
+	'replace',
+];
+
+function print_json(value: unknown) {
+	console.log(JSON.stringify(value, null, 2));
+}
+
+function format_bytes(bytes: number): string {
+	const units = ['B', 'KB', 'MB', 'GB'];
+	let value = bytes;
+	let unit = 0;
+	while (value >= 1024 && unit < units.length - 1) {
+		value /= 1024;
+		unit++;
+	}
+	return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+function file_size(path: string): number {
+	return existsSync(path) ? statSync(path).size : 0;
+}
+
+function format_relation(relation: Relation, name: string): string {
+	const details = [
+		relation.strength != null && `strength ${relation.strength}`,
+		relation.description,
+	].filter(Boolean);
+	const suffix = details.length > 0 ? ` (${details.join(', ')})` : '';
+	return relation.from === name
+		? `  -> ${relation.relationType} ${relation.to}${suffix}`
+		: `  <- ${relation.relationType} ${relation.from}${suffix}`;
+}
+
+function require_arg(
+	context: CommandContext,
+	index: number,
+	name: string,
+) {
+	const value = context.args[index];
+	if (value === undefined) {
+		throw new UsageError(`Missing ${name}`);
+	}
+	return value;
+}
+
+function pick_option<T extends string>(
+	value: string | boolean | undefined,
+	allowed: T[],
+	name: string,
+): T | undefined {
+	if (value === undefined) return undefined;
+	if (!allowed.includes(value as T)) {
+		throw new UsageError(
+			`Invalid ${name} "${value}". Use ${allowed.join(', ')}.`,
+		);
+	}
+	return value as T;
+}
+
+function parse_limit(value: string | boolean | undefined) {
+	if (value === undefined) return undefined;
+	const limit = Number(value);
+	if (!Number.isInteger(limit)) {
+		throw new UsageError(`Invalid limit "${value}"`);
+	}
+	return limit;
+}
+
+// Opened on first use by a command and closed when it finishes
+let database: DatabaseManager | undefined;
+
+async function open_database() {
+	database ??= await DatabaseManager.get_instance(
+		get_database_config(),
+	);
+	return database;
+}
+
+const COMMANDS: Record<string, Command> = {
+	search: {
+		usage: 'search <query> [--limit <n>]',
+		description: 'Full-text search over entities and observations',
+		options: { limit: { type: 'string', short: 'l' } },
+		async run(context, values) {
+			const query = require_arg(context, 0, 'search query');
+			const limit = parse_limit(values.limit);
+			const db = await open_database();
+			const result = await db.search_nodes(
+				query,
+				{ limit },
+				false,
+				context.namespace,
+			);
+			if (context.json) return print_json(result);
+
+			if (result.entities.length === 0) {
+				console.log(`No entities match "${query}"`);
+				return;
+			}
+			for (const entity of result.entities) {
+				const namespace = entity.namespace
+					? ` [${entity.namespace}]`
+					: '';
+				console.log(
+					`${entity.name} (${entity.entityType})${namespace}`,
+				);
+				const snippet = entity.snippet?.replace(/<\/?mark>/g, '*');
+				console.log(
+					`  ${snippet ?? entity.observations[0] ?? ''}`.trimEnd(),
+				);
+			}
+			console.log(
+				`\n${result.entities.length} of ${result.totalCount} matching entities`,
+			);
+		},
+	},
+
+	show: {
+		usage: 'show <entity>',
+		description:
+			'Show an entity with its observations (with ids) and relations',
+		async run(context) {
+			const name = require_arg(context, 0, 'entity name');
+			const db = await open_database();
+			const { entity, relations } =
+				await db.get_entity_with_relations(
+					name,
+					true,
+					{ depth: 1 },
+					context.namespace,
+				);
+			if (context.json) return print_json({ ...entity, relations });
+
+			const observations = entity.observations as Observation[];
+			console.log(`${entity.name} (${entity.entityType})`);
+			console.log(`\nObservations (${observations.length}):`);
+			for (const observation of observations) {
+				console.log(`  [${observation.id}] ${observation.content}`);
+			}
+			console.log(`\nRelations (${relations.length}):`);
+			for (const relation of relations) {
+				console.log(format_relation(relation, entity.name));
+			}
+		},
+	},
+
+	export: {
+		usage: 'export [--format json|jsonl] [--output <file>]',
+		description:
+			'Export the graph to stdout or a file, in a format import accepts',
+		options: {
+			format: { type: 'string', short: 'f' },
+			output: { type: 'string', short: 'o' },
+		},
+		async run(context, values) {
+			const output = values.output as string | undefined;
+			const format =
+				pick_option(values.format, GRAPH_FORMATS, 'format') ??
+				(output?.endsWith('.jsonl') ? 'jsonl' : 'json');
+			const db = await open_database();
+			const data = await db.export_graph(format, context.namespace);
+			if (!output) {
+				process.stdout.write(
+					data.endsWith('\n') ? data : `${data}\n`,
+				);
+				return;
+			}
+
+			writeFileSync(output, data, 'utf8');
+			const summary = {
+				path: output,
+				format,
+				bytes: Buffer.byteLength(data),
+			};
+			if (context.json) return print_json(summary);
+			console.log(
+				`Exported ${format} to ${output} (${format_bytes(summary.bytes)})`,
+			);
+		},
+	},
+
+	import: {
+		usage:
+			'import <file> [--format json|jsonl] [--strategy merge|skip_existing|replace]',
+		description: 'Import a graph exported by export or export_graph',
+		options: {
+			format: { type: 'string', short: 'f' },
+			strategy: { type: 'string', short: 's' },
+		},
+		async run(context, values) {
+			const path = require_arg(context, 0, 'file to import');
+			const format =
+				pick_option(values.format, GRAPH_FORMATS, 'format') ??
+				(path.endsWith('.jsonl') ? 'jsonl' : 'json');
+			const strategy = pick_option(
+				values.strategy,
+				IMPORT_STRATEGIES,
+				'strategy',
+			);
+			const db = await open_database();
+			const result = await db.import_graph(
+				readFileSync(path, 'utf8'),
+				{ format, strategy },
+				context.namespace,
+			);
+			if (context.json) return print_json(result);
+
+			console.log(`Imported ${path} (strategy ${result.strategy})`);
+			for (const kind of ['entities', 'relations'] as const) {
+				const counts = result[kind];
+				console.log(
+					`  ${kind}: ${counts.created} created, ${counts.updated} updated, ${counts.skipped} skipped, ${counts.deleted} deleted`,
+				);
+			}
+		},
+	},
+
+	stats: {
+		usage: 'stats [--limit <n>] [--period day|week|month]',
+		description:
+			'Show counts, breakdowns, orphans, database size and growth',
+		options: {
+			limit: { type: 'string', short: 'l' },
+			period: { type: 'string', short: 'p' },
+		},
+		async run(context, values) {
+			const limit = parse_limit(values.limit);
+			const period = pick_option(
+				values.period,
+				STATS_PERIODS,
+				'period',
+			);
+			const db = await open_database();
+			const stats = await db.get_stats(
+				{ limit, period },
+				context.namespace,
+			);
+			if (context.json) return print_json(stats);
+
+			const { counts, storage } = stats;
+			const label = (entity: { name: string; namespace?: string }) =>
+				entity.namespace
+					? `${entity.name} [${entity.namespace}]`
+					: entity.name;
+			const section = (title: string, lines: string[]) => {
+				console.log(`\n${title}`);
+				for (const line of lines.length > 0 ? lines : ['(none)']) {
+					console.log(`  ${line}`);
+				}
+			};
+
+			console.log(`Namespace: ${stats.namespace}`);
+			console.log(
+				`${counts.entities} entities, ${counts.observations} observations, ${counts.relations} relations`,
+			);
+			console.log(
+				`Database: ${format_bytes(storage.databaseBytes)} (WAL ${format_bytes(storage.walBytes)})`,
+			);
+			section(
+				'Entity types:',
+				stats.entityTypes.map(
+					(row) => `${row.entityType}: ${row.count}`,
+				),
+			);
+			section(
+				'Relation types:',
+				stats.relationTypes.map(
+					(row) => `${row.relationType}: ${row.count}`,
+				),
+			);
+			section(
+				'Most connected:',
+				stats.topEntities.map(
+					(entity) =>
+						`${label(entity)} (${entity.entityType}): ${entity.degree} relations`,
+				),
+			);
+			section(
+				`Orphans (${stats.orphans.count}):`,
+				stats.orphans.entities.map(
+					(entity) => `${label(entity)} (${entity.entityType})`,
+				),
+			);
+			section(
+				`Single observation (${stats.singleObservation.count}):`,
+				stats.singleObservation.entities.map(
+					(entity) => `${label(entity)} (${entity.entityType})`,
+				),
+			);
+			section(
+				'Growth:',
+				stats.growth.map(
+					(row) =>
+						`${row.period}: +${row.entities} entities, +${row.observations} observations, +${row.relations} relations (${row.totalEntities} entities)`,
+				),
+			);
+		},
+	},
+
+	check: {
+		usage: 'check [--repair] [--limit <n>]',
+		description:
+			'Check for corruption, dangling rows, duplicates and blank names; exits with 1 if issues are left',
+		options: {
+			repair: { type: 'boolean', short: 'r' },
+			limit: { type: 'string', short: 'l' },
+		},
+		async run(context, values) {
+			const limit = parse_limit(values.limit);
+			const repair = values.repair === true;
+			const db = await open_database();
+			const report = await db.check_integrity(
+				{ repair, limit },
+				context.namespace,
+			);
+			const code = report.ok || report.repaired ? 0 : 1;
+			if (context.json) {
+				print_json(report);
+				return code;
+			}
+
+			const label = (name: string, namespace?: string) =>
+				namespace ? `${name} [${namespace}]` : name;
+			const section = (
+				title: string,
+				count: number,
+				lines: string[],
+				note?: string,
+			) => {
+				if (count === 0) return;
+				console.log(
+					`\n${title} (${count}${note ? `, ${note}` : ''}):`,
+				);
+				for (const line of lines) console.log(`  ${line}`);
+				if (count > lines.length) {
+					console.log(`  ... and ${count - lines.length} more`);
+				}
+			};
+
+			console.log(`Namespace: ${report.namespace}`);
+			if (report.ok) {
+				console.log('No issues found');
+				return code;
+			}
+			section(
+				'integrity_check',
+				report.integrityErrors.length,
+				report.integrityErrors,
+			);
+			section(
+				'Foreign key violations',
+				report.foreignKeyViolations.length,
+				report.foreignKeyViolations.map(
+					(row) =>
+						`${row.table} row ${row.rowid} -> missing ${row.parent}`,
+				),
+			);
+			section(
+				'Dangling relations',
+				report.danglingRelations.count,
+				report.danglingRelations.items.map(
+					(row) =>
+						`[${row.id}] ${label(row.from, row.namespace)} -${row.relationType}-> ${row.to} (missing ${row.missing.join(' and ')})`,
+				),
+			);
+			section(
+				'Orphan observations',
+				report.orphanObservations.count,
+				report.orphanObservations.items.map(
+					(row) =>
+						`[${row.id}] ${label(row.entityName, row.namespace)}: ${row.content}`,
+				),
+			);
+			section(
+				'Duplicate observations',
+				report.duplicateObservations.groups,
+				report.duplicateObservations.items.map(
+					(row) =>
+						`${label(row.entityName, row.namespace)}: ${row.content} (ids ${row.ids.join(', ')})`,
+				),
+				`${report.duplicateObservations.count} surplus copies`,
+			);
+			section(
+				'Blank entity names',
+				report.blankNames.count,
+				report.blankNames.items.map(
+					(row) =>
+						`${label(JSON.stringify(row.name), row.namespace)} (${row.entityType})`,
+				),
+			);
+			section(
+				'Blank entity types',
+				report.blankEntityTypes.count,
+				report.blankEntityTypes.items.map((row) =>
+					label(row.name, row.namespace),
+				),
+			);
+			section(
+				'Blank relation types',
+				report.blankRelationTypes.count,
+				report.blankRelationTypes.items.map(
+					(row) =>
+						`[${row.id}] ${label(row.from, row.namespace)} -> ${row.to}`,
+				),
+			);
+
+			if (report.repaired) {
+				const repaired = Object.entries(report.repaired)
+					.filter(([, count]) => count > 0)
+					.map(([kind, count]) => `${kind} ${count}`);
+				console.log(
+					`\nRepaired: ${repaired.length > 0 ? repaired.join(', ') : 'nothing'}`,
+				);
+			} else {
+				console.log('\nRun "check --repair" to fix these issues');
+			}
+			return code;
+		},
+	},
+
+	vacuum: {
+		usage: 'vacuum',
+		description:
+			'Checkpoint the WAL and rebuild the database to reclaim space',
+		async run(context) {
+			const config = get_database_config();
+			const size = () =>
+				file_size(config.dbPath) + file_size(`${config.dbPath}-wal`);
+			const db = await open_database();
+			const before = size();
+			await db.vacuum();
+			const result = { before, after: size() };
+			if (context.json) return print_json(result);
+			console.log(
+				`Vacuumed ${config.dbPath}: ${format_bytes(result.before)} -> ${format_bytes(result.after)}`,
+			);
+		},
+	},
+
+	backup: {
+		usage: 'backup <destination>',
+		description: 'Copy the database to a file while it stays in use',
+		async run(context) {
+			const destination = require_arg(context, 0, 'destination');
+			const db = await open_database();
+			await db.backup(destination);
+			const result = {
+				path: destination,
+				bytes: file_size(destination),
+			};
+			if (context.json) return print_json(result);
+			console.log(
+				`Backed up to ${destination} (${format_bytes(result.bytes)})`,
+			);
+		},
+	},
+
+	migrate: {
+		usage: 'migrate [status|up]',
+		description:
+			'List schema migrations, or apply pending ones (the default)',
+		async run(context) {
+			const mode = context.args[0] ?? 'up';
+			if (mode !== 'status' && mode !== 'up') {
+				throw new UsageError(
+					`Unknown migrate mode "${mode}". Use "status" or "up".`,
+				);
+			}
+
+			// Not DatabaseManager, which applies migrations when it opens
+			const config = get_database_config();
+			const db = new Database(config.dbPath);
+			db.pragma('foreign_keys = ON');
+			try {
+				if (mode === 'status') {
+					const statuses = get_migration_status(db, migrations);
+					if (context.json) return print_json(statuses);
+					console.log(`Migration status for ${config.dbPath}:`);
+					for (const status of statuses) {
+						const state = status.applied_at
+							? `applied ${status.applied_at}`
+							: 'pending';
+						console.log(
+							`  ${String(status.version).padStart(3, '0')} ${status.name} (${state})`,
+						);
+					}
+					return;
+				}
+
+				const applied = apply_migrations(db, migrations);
+				if (context.json) {
+					return print_json(
+						applied.map(({ version, name }) => ({ version, name })),
+					);
+				}
+				for (const migration of applied) {
+					console.log(
+						`Applied: ${String(migration.version).padStart(3, '0')} ${migration.name}`,
+					);
+				}
+				console.log(
+					applied.length > 0
+						? 'Migrations completed successfully'
+						: 'Database is already up to date',
+				);
+			} finally {
+				db.close();
+			}
+		},
+	},
+};
+
+function usage(): string {
+	return [
+		'Usage: mcp-memory-sqlite [--http] [--host <host>] [--port <port>]',
+		'       mcp-memory-sqlite <command> [options]',
+		'',
+		'Without a command, starts the MCP server.',
+		'',
+		'Commands:',
+		...Object.values(COMMANDS).flatMap((command) => [
+			`  ${command.usage}`,
+			`      ${command.description}`,
+		]),
+		'',
+		'Options for every command:',
+		'  --json                Print JSON instead of text',
+		'  --namespace, -n <ns>  Namespace to use (default: MEMORY_NAMESPACE)',
+		'',
+		'The database is SQLITE_DB_PATH (default: ./sqlite-memory.db).',
+	].join('\n');
+}
+
+export function is_command(name: string | undefined): boolean {
+	return (
+		name !== undefined &&
+		(name in COMMANDS || name === 'help' || name === '--help')
+	);
+}
+
+// Run a subcommand from argv (without the node and script paths).
+// Returns the exit code.
+export async function run_command(argv: string[]): Promise<number> {
+	const [name, ...rest] = argv;
+	const command = COMMANDS[name];
+	if (!command) {
+		console.log(usage());
+		return 0;
+	}
+
+	try {
+		const { values, positionals } = parseArgs({
+			args: rest,
+			allowPositionals: true,
+			options: {
+				json: { type: 'boolean' },
+				namespace: { type: 'string', short: 'n' },
+				help: { type: 'boolean', short: 'h' },
+				...command.options,
+			},
+		});
+		if (values.help) {
+			console.log(`Usage: mcp-memory-sqlite ${command.usage}`);
+			return 0;
+		}
+
+		const code = await command.run(
+			{
+				args: positionals,
+				json: values.json === true,
+				namespace: values.namespace as string | undefined,
+			},
+			values,
+		);
+		return code ?? 0;
+	} catch (error) {
+		const message =
+			error instanceof Error ? error.message : String(error);
+		if (error instanceof UsageError || is_parse_error(error)) {
+			console.error(
+				`${message}\nUsage: mcp-memory-sqlite ${command.usage}`,
+			);
+		} else {
+			console.error(`Error: ${message}`);
+		}
+		return 1;
+	} finally {
+		await database?.close();
+	}
+}
+
+// parseArgs reports unknown options and missing values with these codes
+function is_parse_error(error: unknown): boolean {
+	const code = (error as { code?: string } | undefined)?.code;
+	return (
+		code === 'ERR_PARSE_ARGS_UNKNOWN_OPTION' ||
+		code === 'ERR_PARSE_ARGS_INVALID_OPTION_VALUE' ||
+		code === 'ERR_PARSE_ARGS_UNEXPECTED_POSITIONAL'
+	);
+}
@@ -1,26 +1,268 @@
 import Database from 'better-sqlite3';
-import { Entity, Relation, SearchResult } from '../types/index.js';
+import {
+	AddObservationsResult,
+	CleanupCandidates,
+	CreateEntitiesMode,
+	CreateRelationResult,
+	CreateRelationsOptions,
+	CreateRelationsResult,
+	DeleteObservationsResult,
+	Entity,
+	EntityFilter,
+	EntityTypeDefinition,
+	EntityTypeSummary,
+	EntitySort,
+	EntityVersion,
+	FindPathsOptions,
+	GraphChange,
+	GraphFormat,
+	GraphPage,
+	GraphPath,
+	ImportCounts,
+	ImportGraphOptions,
+	ImportGraphResult,
+	IntegrityOptions,
+	IntegrityReport,
+	ListEntitiesOptions,
+	MergeEntitiesResult,
+	MergeStrategy,
+	NamespaceSummary,
+	NeighborhoodOptions,
+	OntologyMode,
+	OntologySummary,
+	OntologyWarning,
+	Observation,
+	ObservationView,
+	PageOptions,
+	ReadGraphOptions,
+	RegisterTypesResult,
+	Relation,
+	RelationPropertyUpdates,
+	RelationTypeDefinition,
+	RenameEntityResult,
+	RenderGraphOptions,
+	MemoryStats,
+	RestoreEntityResult,
+	SearchResult,
+	StatsOptions,
+	TypeDescription,
+	TypeKind,
+} from '../types/index.js';
+import {
+	get_version_snapshot,
+	get_versions,
+	record_versions,
+} from './history.js';
+import {
+	apply_migrations,
+	get_migration_status,
+	migrations,
+} from './migrations/index.js';
+import {
+	ObservationRow,
+	RELATION_COLUMNS,
+	RELATION_PROPERTY_KEYS,
+	RelationRow,
+	to_observation,
+	to_relation,
+	validate_relation_properties,
+} from './rows.js';
+import { decode_cursor, encode_cursor } from './cursor.js';
+import { build_entity_filter, escape_like } from './filters.js';
+import { render_diagram } from './render.js';
+import {
+	ConflictError,
+	ErrorDetails,
+	NotFoundError,
+	ValidationError,
+	with_context,
+	with_details,
+} from './errors.js';
+import {
+	find_integrity_issues,
+	repair_integrity_issues,
+} from './integrity.js';
+import {
+	check_entity_type,
+	check_relation,
+	describe_type,
+	load_ontology,
+	Ontology,
+	OntologyProblem,
+	register_types,
+	reverse_relation_type,
+	summarise_ontology,
+} from './ontology.js';
+import { collect_stats, NO_RELATIONS } from './stats.js';
+import {
+	format_graph,
+	GraphRecord,
+	parse_graph,
+} from './transfer.js';
 
 // Types for configuration
 interface DatabaseConfig {
 	dbPath: string;
+	// Namespace used when a tool call does not name one
+	defaultNamespace?: string;
+	// Open the database read-only, so every write fails
+	readOnly?: boolean;
+	// How create_entities and create_relations check registered types
+	ontologyMode?: OntologyMode;
+}
+
+// Namespace value that reads (searches and listings) accept to cover
+// every namespace. It cannot be used as a namespace name.
+const ALL_NAMESPACES = 'all';
+
+// Result limits are clamped to 1..50, defaulting to 10
+function clamp_limit(limit = 10): number {
+	return Math.min(Math.max(1, limit), 50);
+}
+
+// Orderings for list_entities over the columns of its "listed" CTE:
+// the ORDER BY, the columns making up a cursor's sort key, and the
+// condition for rows after that key (bound as @k0, @k1, ...)
+const ENTITY_SORTS: Record<
+	EntitySort,
+	{ order: string; key: string[]; after: string }
+> = {
+	recent: {
+		order: 'created_at DESC, namespace, name',
+		key: ['created_at', 'namespace', 'name'],
+		after:
+			'(created_at < @k0 OR (created_at = @k0 AND (namespace, name) > (@k1, @k2)))',
+	},
+	alphabetical: {
+		order: 'name, namespace',
+		key: ['name', 'namespace'],
+		after: '(name, namespace) > (@k0, @k1)',
+	},
+	'most-connected': {
+		order: 'degree DESC, name, namespace',
+		key: ['degree', 'name', 'namespace'],
+		after:
+			'(degree < @k0 OR (degree = @k0 AND (name, namespace) > (@k1, @k2)))',
+	},
+};
+
+// Bind a cursor's sort key as @k0, @k1, ..., with NULLs for the first
+// page
+function cursor_params(
+	key: unknown[] | undefined,
+	length: number,
+): Record<string, unknown> {
+	return Object.fromEntries(
+		Array.from({ length }, (_, i) => [`k${i}`, key?.[i] ?? null]),
+	);
+}
+
+function empty_counts(): ImportCounts {
+	return { created: 0, updated: 0, skipped: 0, deleted: 0 };
+}
+
+// Property values for a relation that absorbs a duplicate of itself:
+// unset properties are taken from the duplicate, tags are combined and
+// properties objects merged, with the kept relation winning conflicts
+function combine_relation_properties(
+	kept: RelationRow,
+	duplicate: RelationRow,
+): Array<string | number | null> {
+	const tags = [
+		...new Set([
+			...(kept.tags ? JSON.parse(kept.tags) : []),
+			...(duplicate.tags ? JSON.parse(duplicate.tags) : []),
+		]),
+	];
+	const properties = {
+		...(duplicate.properties ? JSON.parse(duplicate.properties) : {}),
+		...(kept.properties ? JSON.parse(kept.properties) : {}),
+	};
+	return [
+		kept.description ?? duplicate.description,
+		kept.strength ?? duplicate.strength,
+		kept.tags || duplicate.tags ? JSON.stringify(tags) : null,
+		kept.properties || duplicate.properties
+			? JSON.stringify(properties)
+			: null,
+	];
+}
+
+interface EntityRow {
+	namespace: string;
+	name: string;
+	entity_type: string;
+}
+
+// Relations as directed edges for graph traversal, honouring the
+// @direction ("in" | "out" | "both") and @types (JSON array of
+// relation types, or NULL for all) parameters within @namespace
+const TRAVERSAL_EDGES = `
+  edges(from_name, to_name, relation_id) AS (
+    SELECT source, target, id FROM relations
+    WHERE namespace = @namespace
+      AND @direction IN ('out', 'both')
+      AND (@types IS NULL OR relation_type IN (SELECT value FROM json_each(@types)))
+    UNION ALL
+    SELECT target, source, id FROM relations
+    WHERE namespace = @namespace
+      AND @direction IN ('in', 'both')
+      AND (@types IS NULL OR relation_type IN (SELECT value FROM json_each(@types)))
+  )`;
+
+// Partial paths find_paths may build before giving up on finding
+// more paths
+const MAX_PATH_ROWS = 10000;
+
+// FTS5 reports malformed MATCH expressions either as a syntax error
+// or, for stray "word:" prefixes, as an unknown column filter
+function is_fts_query_error(error: unknown): boolean {
+	return (
+		error instanceof Error &&
+		(error.message.startsWith('fts5:') ||
+			error.message.startsWith('no such column'))
+	);
+}
+
+// Quote every whitespace-separated word so that FTS5 treats it as a
+// phrase, matching the tokens it contains without operator parsing
+function to_literal_fts_query(query: string): string {
+	return query
+		.split(/\s+/)
+		.filter((word) => /[\p{L}\p{N}]/u.test(word))
+		.map((word) => `"${word.replace(/"/g, '""')}"`)
+		.join(' ');
 }
 
 export class DatabaseManager {
 	private static instance: DatabaseManager;
 	private db: Database.Database;
+	private default_namespace: string;
+	private read_only: boolean;
+	private ontology_mode: OntologyMode;
+	private change_listeners = new Set<(change: GraphChange) => void>();
 
 	private constructor(config: DatabaseConfig) {
 		if (!config.dbPath) {
 			throw new Error('Database path is required');
 		}
 
-		// Open database connection
-		this.db = new Database(config.dbPath);
+		this.default_namespace = config.defaultNamespace || 'default';
+		this.read_only = config.readOnly ?? false;
+		this.ontology_mode = config.ontologyMode ?? 'off';
+
+		// Open database connection. A read-only connection needs an
+		// existing database.
+		this.db = new Database(config.dbPath, {
+			readonly: this.read_only,
+			fileMustExist: this.read_only,
+		});
 
 		// Configure database for better performance and safety
-		this.db.pragma('journal_mode = WAL');
-		this.db.pragma('synchronous = NORMAL');
+		if (!this.read_only) {
+			this.db.pragma('journal_mode = WAL');
+			this.db.pragma('synchronous = NORMAL');
+		}
 		this.db.pragma('cache_size = 1000');
 		this.db.pragma('foreign_keys = ON');
 		this.db.pragma('temp_store = MEMORY');
@@ -30,8 +272,14 @@ export class DatabaseManager {
 		config: DatabaseConfig,
 	): Promise<DatabaseManager> {
 		if (!DatabaseManager.instance) {
-			DatabaseManager.instance = new DatabaseManager(config);
-			await DatabaseManager.instance.initialize();
+			const instance = new DatabaseManager(config);
+			try {
+				instance.migrate();
+			} catch (error) {
+				await instance.close();
+				throw error;
+			}
+			DatabaseManager.instance = instance;
 		}
 		return DatabaseManager.instance;
 	}
@@ -43,16 +291,25 @@ export class DatabaseManager {
 			entityType: string;
 			observations: string[];
 		}>,
-	): Promise<void> {
+		mode: CreateEntitiesMode = 'append',
+		namespace: string = this.default_namespace,
+	): Promise<OntologyWarning[]> {
 		const transaction = this.db.transaction(() => {
-			for (const entity of entities) {
+			this.validate_namespace(namespace);
+			const ontology = this.load_ontology(namespace);
+			const warnings: OntologyWarning[] = [];
+
+			for (const [index, entity] of entities.entries()) {
 				// Validate entity name
 				if (
 					!entity.name ||
 					typeof entity.name !== 'string' ||
 					entity.name.trim() === ''
 				) {
-					throw new Error('Entity name must be a non-empty string');
+					throw new ValidationError(
+						'Entity name must be a non-empty string',
+						{ index, field: 'name' },
+					);
 				}
 
 				// Validate entity type
@@ -61,8 +318,9 @@ export class DatabaseManager {
 					typeof entity.entityType !== 'string' ||
 					entity.entityType.trim() === ''
 				) {
-					throw new Error(
+					throw new ValidationError(
 						`Invalid entity type for entity "${entity.name}"`,
+						{ index, entityName: entity.name, field: 'entityType' },
 					);
 				}
 
@@ -71,8 +329,9 @@ export class DatabaseManager {
 					!Array.isArray(entity.observations) ||
 					entity.observations.length === 0
 				) {
-					throw new Error(
+					throw new ValidationError(
 						`Entity "${entity.name}" must have at least one observation`,
+						{ index, entityName: entity.name, field: 'observations' },
 					);
 				}
 
@@ -81,441 +340,2653 @@ export class DatabaseManager {
 						(obs) => typeof obs === 'string' && obs.trim() !== '',
 					)
 				) {
-					throw new Error(
+					throw new ValidationError(
 						`Entity "${entity.name}" has invalid observations. All observations must be non-empty strings`,
+						{ index, entityName: entity.name, field: 'observations' },
 					);
 				}
 
-				// Check if entity exists
-				const existing = this.db
-					.prepare('SELECT name FROM entities WHERE name = ?')
-					.get(entity.name);
+				this.report_ontology_problem(
+					check_entity_type(ontology, entity.entityType),
+					index,
+					warnings,
+					{ entityName: entity.name, field: 'entityType' },
+				);
 
-				if (existing) {
-					// Update existing entity
+				// Check if entity exists
+				if (this.entity_exists(namespace, entity.name)) {
+					// Update existing entity. An unchanged type is left
+					// alone so its full-text rows are not rewritten.
 					this.db
 						.prepare(
-							'UPDATE entities SET entity_type = ? WHERE name = ?',
+							'UPDATE entities SET entity_type = ? WHERE namespace = ? AND name = ? AND entity_type IS NOT ?',
 						)
-						.run(entity.entityType, entity.name);
+						.run(
+							entity.entityType,
+							namespace,
+							entity.name,
+							entity.entityType,
+						);
 				} else {
 					// Insert new entity
 					this.db
 						.prepare(
-							'INSERT INTO entities (name, entity_type) VALUES (?, ?)',
+							'INSERT INTO entities (namespace, name, entity_type) VALUES (?, ?, ?)',
 						)
-						.run(entity.name, entity.entityType);
+						.run(namespace, entity.name, entity.entityType);
 				}
 
-				// Clear old observations
-				this.db
-					.prepare('DELETE FROM observations WHERE entity_name = ?')
-					.run(entity.name);
+				// Clear old observations when replacing
+				if (mode === 'replace') {
+					this.db
+						.prepare(
+							'DELETE FROM observations WHERE namespace = ? AND entity_name = ?',
+						)
+						.run(namespace, entity.name);
+				}
 
-				// Add new observations
-				const insert_obs = this.db.prepare(
-					'INSERT INTO observations (entity_name, content) VALUES (?, ?)',
+				// Add new observations, skipping ones already stored
+				this.insert_observations(
+					namespace,
+					entity.name,
+					entity.observations,
 				);
-				for (const observation of entity.observations) {
-					insert_obs.run(entity.name, observation);
-				}
 			}
+
+			this.record_change(
+				namespace,
+				entities.map((entity) => entity.name),
+				'create_entities',
+			);
+			return warnings;
 		});
 
 		try {
-			transaction();
+			return transaction();
 		} catch (error) {
 			// Wrap all errors with context
-			throw new Error(
-				`Entity operation failed: ${
-					error instanceof Error ? error.message : String(error)
-				}`,
+			throw with_context(error, 'Entity operation failed');
+		}
+	}
+
+	// Observation operations
+	async add_observations(
+		additions: Array<{ entityName: string; contents: string[] }>,
+		namespace: string = this.default_namespace,
+	): Promise<AddObservationsResult[]> {
+		const transaction = this.db.transaction(() => {
+			this.validate_namespace(namespace);
+
+			const results: AddObservationsResult[] = [];
+			for (const [
+				index,
+				{ entityName, contents },
+			] of additions.entries()) {
+				if (
+					!Array.isArray(contents) ||
+					!contents.every(
+						(obs) => typeof obs === 'string' && obs.trim() !== '',
+					)
+				) {
+					throw new ValidationError(
+						`Entity "${entityName}" has invalid observations. All observations must be non-empty strings`,
+						{ index, entityName, field: 'contents' },
+					);
+				}
+
+				if (!this.entity_exists(namespace, entityName)) {
+					results.push({
+						entityName,
+						entityFound: false,
+						added: [],
+						skipped: contents,
+					});
+					continue;
+				}
+
+				results.push({
+					entityName,
+					entityFound: true,
+					...this.insert_observations(
+						namespace,
+						entityName,
+						contents,
+					),
+				});
+			}
+
+			this.record_change(
+				namespace,
+				results
+					.filter((result) => result.added.length > 0)
+					.map((result) => result.entityName),
+				'add_observations',
 			);
+			return results;
+		});
+
+		try {
+			return transaction();
+		} catch (error) {
+			throw with_context(error, 'Failed to add observations');
 		}
 	}
 
-	async get_entity(name: string): Promise<Entity> {
-		const entity_result = this.db
-			.prepare(
-				'SELECT name, entity_type FROM entities WHERE name = ?',
-			)
-			.get(name) as { name: string; entity_type: string } | undefined;
+	async delete_observations(
+		deletions: Array<{
+			entityName: string;
+			observationIds?: number[];
+			contents?: string[];
+		}>,
+		namespace: string = this.default_namespace,
+	): Promise<DeleteObservationsResult[]> {
+		const transaction = this.db.transaction(() => {
+			this.validate_namespace(namespace);
 
-		if (!entity_result) {
-			throw new Error(`Entity not found: ${name}`);
+			const delete_by_id = this.db.prepare(
+				'DELETE FROM observations WHERE namespace = ? AND entity_name = ? AND id = ? RETURNING content',
+			);
+			const delete_by_content = this.db.prepare(
+				'DELETE FROM observations WHERE namespace = ? AND entity_name = ? AND content = ? RETURNING content',
+			);
+
+			const results: DeleteObservationsResult[] = [];
+			for (const {
+				entityName,
+				observationIds = [],
+				contents = [],
+			} of deletions) {
+				const result: DeleteObservationsResult = {
+					entityName,
+					entityFound: this.entity_exists(namespace, entityName),
+					deleted: [],
+					notFound: [],
+				};
+
+				if (!result.entityFound) {
+					result.notFound.push(...observationIds, ...contents);
+					results.push(result);
+					continue;
+				}
+
+				for (const id of observationIds) {
+					const rows = delete_by_id.all(
+						namespace,
+						entityName,
+						id,
+					) as Array<{ content: string }>;
+					if (rows.length === 0) result.notFound.push(id);
+					result.deleted.push(...rows.map((row) => row.content));
+				}
+
+				for (const content of contents) {
+					const rows = delete_by_content.all(
+						namespace,
+						entityName,
+						content,
+					) as Array<{ content: string }>;
+					if (rows.length === 0) result.notFound.push(content);
+					result.deleted.push(...rows.map((row) => row.content));
+				}
+
+				results.push(result);
+			}
+
+			this.record_change(
+				namespace,
+				results
+					.filter((result) => result.deleted.length > 0)
+					.map((result) => result.entityName),
+				'delete_observations',
+			);
+			return results;
+		});
+
+		try {
+			return transaction();
+		} catch (error) {
+			throw with_context(error, 'Failed to delete observations');
 		}
+	}
 
-		const observations_result = this.db
+	private entity_exists(namespace: string, name: string): boolean {
+		return !!this.db
 			.prepare(
-				'SELECT content FROM observations WHERE entity_name = ?',
+				'SELECT name FROM entities WHERE namespace = ? AND name = ?',
 			)
-			.all(name) as Array<{ content: string }>;
+			.get(namespace, name);
+	}
 
-		return {
-			name: entity_result.name,
-			entityType: entity_result.entity_type,
-			observations: observations_result.map((row) => row.content),
-		};
+	// Reject namespaces that cannot hold entities: empty ones and the
+	// reserved "all"
+	private validate_namespace(namespace: string) {
+		if (typeof namespace !== 'string' || namespace.trim() === '') {
+			throw new ValidationError(
+				'Namespace must be a non-empty string',
+				{ field: 'namespace' },
+			);
+		}
+		if (namespace === ALL_NAMESPACES) {
+			throw new ValidationError(
+				`Namespace "${ALL_NAMESPACES}" is only valid for searches and listings`,
+				{ field: 'namespace', namespace },
+			);
+		}
 	}
 
-	async search_entities(
-		query: string,
-		limit: number = 10,
-	): Promise<Entity[]> {
-		// Validate and clamp limit
-		const effective_limit = Math.min(Math.max(1, limit), 50);
+	// Registered types to check writes against; none when the ontology
+	// is off
+	private load_ontology(namespace: string): Ontology {
+		return this.ontology_mode === 'off'
+			? { entity_types: new Map(), relation_types: new Map() }
+			: load_ontology(this.db, namespace);
+	}
 
-		// Normalize query for flexible matching: replace spaces/underscores with wildcards
-		const normalized_query = query.replace(/[\s_-]+/g, '%');
-		const search_pattern = `%${normalized_query}%`;
+	// Sort out an item of a write that does not fit the ontology: in
+	// strict mode the problem is returned for the caller to refuse the
+	// item, in warn mode it is collected as a warning
+	private ontology_rejects(
+		problem: OntologyProblem | undefined,
+		index: number,
+		warnings: OntologyWarning[],
+	): OntologyProblem | undefined {
+		if (!problem) return undefined;
+		if (this.ontology_mode === 'strict') return problem;
+		warnings.push({ index, ...problem });
+		return undefined;
+	}
 
-		// Use relevance scoring: name match (3) > type match (2) > observation match (1)
-		const results = this.db
+	// Fail the write over an item the ontology rejects
+	private report_ontology_problem(
+		problem: OntologyProblem | undefined,
+		index: number,
+		warnings: OntologyWarning[],
+		details: ErrorDetails,
+	) {
+		const rejected = this.ontology_rejects(problem, index, warnings);
+		if (!rejected) return;
+		const { message, suggestion } = rejected;
+		throw new ValidationError(message, {
+			index,
+			...details,
+			...(suggestion && { suggestion }),
+		});
+	}
+
+	// Insert observations for an existing entity, skipping exact
+	// duplicates of stored observations and of each other
+	private insert_observations(
+		namespace: string,
+		entity_name: string,
+		contents: string[],
+	): { added: string[]; skipped: string[] } {
+		const existing = new Set(
+			(
+				this.db
+					.prepare(
+						'SELECT content FROM observations WHERE namespace = ? AND entity_name = ?',
+					)
+					.all(namespace, entity_name) as Array<{ content: string }>
+			).map((row) => row.content),
+		);
+		const insert_obs = this.db.prepare(
+			'INSERT INTO observations (namespace, entity_name, content) VALUES (?, ?, ?)',
+		);
+
+		const added: string[] = [];
+		const skipped: string[] = [];
+		for (const content of contents) {
+			if (existing.has(content)) {
+				skipped.push(content);
+				continue;
+			}
+			insert_obs.run(namespace, entity_name, content);
+			existing.add(content);
+			added.push(content);
+		}
+		return { added, skipped };
+	}
+
+	// Make an entity's observations exactly `contents`: drop the ones
+	// not listed, then add the missing ones. Unchanged observations keep
+	// their ids and timestamps. Returns whether anything changed.
+	private replace_observations(
+		namespace: string,
+		entity_name: string,
+		contents: string[],
+	): boolean {
+		const wanted = new Set(contents);
+		const current = this.db
 			.prepare(
-				`
-        SELECT DISTINCT
-          e.name,
-          e.entity_type,
-          e.created_at,
-          CASE
-            WHEN e.name LIKE ? COLLATE NOCASE THEN 3
-            WHEN e.entity_type LIKE ? COLLATE NOCASE THEN 2
-            ELSE 1
-          END as relevance_score
-        FROM entities e
-        LEFT JOIN observations o ON e.name = o.entity_name
-        WHERE e.name LIKE ? COLLATE NOCASE
-           OR e.entity_type LIKE ? COLLATE NOCASE
-           OR o.content LIKE ? COLLATE NOCASE
-        ORDER BY relevance_score DESC, e.created_at DESC
-        LIMIT ?
-      `,
+				'SELECT id, content FROM observations WHERE namespace = ? AND entity_name = ?',
 			)
-			.all(
-				search_pattern,
-				search_pattern,
-				search_pattern,
-				search_pattern,
-				search_pattern,
-				effective_limit,
-			) as Array<{
-			name: string;
-			entity_type: string;
+			.all(namespace, entity_name) as Array<{
+			id: number;
+			content: string;
 		}>;
+		const delete_obs = this.db.prepare(
+			'DELETE FROM observations WHERE id = ?',
+		);
+
+		let changed = false;
+		for (const row of current) {
+			if (wanted.has(row.content)) continue;
+			delete_obs.run(row.id);
+			changed = true;
+		}
+		const { added } = this.insert_observations(
+			namespace,
+			entity_name,
+			contents,
+		);
+		return changed || added.length > 0;
+	}
 
-		const entities: Entity[] = [];
-		for (const row of results) {
-			const name = row.name;
-			const observations = this.db
-				.prepare(
-					'SELECT content FROM observations WHERE entity_name = ?',
-				)
-				.all(name) as Array<{ content: string }>;
+	async get_entity<TDetailed extends boolean = false>(
+		name: string,
+		detailed?: TDetailed,
+		namespace: string = this.default_namespace,
+	): Promise<Entity<ObservationView<TDetailed>>> {
+		this.validate_namespace(namespace);
 
-			entities.push({
-				name,
-				entityType: row.entity_type,
-				observations: observations.map((obs) => obs.content),
+		const entity_result = this.db
+			.prepare(
+				'SELECT namespace, name, entity_type FROM entities WHERE namespace = ? AND name = ?',
+			)
+			.get(namespace, name) as EntityRow | undefined;
+
+		if (!entity_result) {
+			throw new NotFoundError(`Entity not found: ${name}`, {
+				entityName: name,
 			});
 		}
 
-		return entities;
+		return this.to_entities([entity_result], detailed)[0];
 	}
 
-	async get_recent_entities(limit = 10): Promise<Entity[]> {
-		const results = this.db
+	async search_entities<TDetailed extends boolean = false>(
+		query: string,
+		page: PageOptions = {},
+		detailed?: TDetailed,
+		namespace: string = this.default_namespace,
+	): Promise<
+		Omit<
+			GraphPage<SearchResult<ObservationView<TDetailed>>>,
+			'relations'
+		>
+	> {
+		const limit = clamp_limit(page.limit);
+		const scope = ['search', namespace, query];
+		const version = this.search_index_version();
+		const after = decode_cursor(page.cursor, scope, version);
+
+		// Rank by BM25 over the FTS index, weighting name and type
+		// matches above observation matches. A matching relation
+		// description counts as a match for both of its endpoints. Each
+		// entity is scored by its best matching row and carries a snippet
+		// from its best matching observation. Ties are broken by
+		// creation time and name, so every entity has a distinct sort
+		// key for cursors.
+		const search = this.db.prepare(
+			`
+        WITH hits AS MATERIALIZED (
+          SELECT
+            rowid AS fts_rowid,
+            namespace,
+            name,
+            bm25(memory_fts, 10.0, 5.0, 1.0) AS score,
+            snippet(memory_fts, 2, '<mark>', '</mark>', '…', 16) AS snippet
+          FROM memory_fts
+          WHERE memory_fts MATCH @query
+            AND (@namespace = @all OR namespace = @namespace)
+        ),
+        relation_hits AS MATERIALIZED (
+          SELECT rowid AS relation_id, bm25(relations_fts) AS score
+          FROM relations_fts
+          WHERE relations_fts MATCH @query
+            AND (@namespace = @all OR namespace = @namespace)
+        ),
+        candidates AS (
+          SELECT namespace, name, score FROM hits
+          UNION ALL
+          SELECT r.namespace, r.source, h.score
+          FROM relation_hits h
+          JOIN relations r ON r.id = h.relation_id
+          UNION ALL
+          SELECT r.namespace, r.target, h.score
+          FROM relation_hits h
+          JOIN relations r ON r.id = h.relation_id
+        ),
+        best AS (
+          SELECT namespace, name, MIN(score) AS score
+          FROM candidates
+          GROUP BY namespace, name
+        ),
+        ranked AS (
+          SELECT e.namespace, e.name, e.entity_type, e.created_at, b.score
+          FROM best b
+          JOIN entities e ON e.namespace = b.namespace AND e.name = b.name
+        ),
+        page AS (
+          SELECT * FROM ranked
+          WHERE @k0 IS NULL
+            OR score > @k0
+            OR (score = @k0 AND (created_at < @k1
+              OR (created_at = @k1 AND (namespace, name) > (@k2, @k3))))
+          ORDER BY score, created_at DESC, namespace, name
+          LIMIT @limit
+        ),
+        snippets AS (
+          SELECT
+            namespace,
+            name,
+            snippet,
+            ROW_NUMBER() OVER (
+              PARTITION BY namespace, name ORDER BY score
+            ) AS rank
+          FROM hits
+          WHERE fts_rowid > 0 AND instr(snippet, '<mark>') > 0
+        )
+        SELECT
+          t.total,
+          p.namespace,
+          p.name,
+          p.entity_type,
+          p.created_at,
+          p.score,
+          s.snippet
+        FROM (SELECT COUNT(*) AS total FROM ranked) t
+        LEFT JOIN page p ON true
+        LEFT JOIN snippets s
+          ON s.namespace = p.namespace AND s.name = p.name AND s.rank = 1
+        ORDER BY p.score, p.created_at DESC, p.namespace, p.name
+      `,
+		);
+
+		// With no match on this page there is a single row holding only
+		// the total
+		let results: Array<
+			EntityRow & {
+				total: number;
+				created_at: string;
+				score: number;
+				snippet: string | null;
+			}
+		>;
+		const params = {
+			namespace,
+			all: ALL_NAMESPACES,
+			limit: limit + 1,
+			...cursor_params(after, 4),
+		};
+		try {
+			results = search.all({ ...params, query }) as typeof results;
+		} catch (error) {
+			if (!is_fts_query_error(error)) throw error;
+
+			// Not valid FTS5 syntax (e.g. "web-development" or "C++"),
+			// so fall back to matching each word as a plain phrase
+			const fallback_query = to_literal_fts_query(query);
+			if (!fallback_query) return { entities: [], totalCount: 0 };
+			results = search.all({
+				...params,
+				query: fallback_query,
+			}) as typeof results;
+		}
+
+		const totalCount = results[0]?.total ?? 0;
+		const rows = results.filter((row) => row.name !== null);
+		const page_rows = rows.slice(0, limit);
+		const last = page_rows[page_rows.length - 1];
+
+		const entities = this.to_entities(
+			page_rows,
+			detailed,
+			namespace === ALL_NAMESPACES,
+		);
+		return {
+			entities: entities.map((entity, index) => {
+				const snippet = page_rows[index].snippet;
+				return snippet ? { ...entity, snippet } : entity;
+			}),
+			totalCount,
+			...(rows.length > limit && {
+				nextCursor: encode_cursor(
+					scope,
+					[last.score, last.created_at, last.namespace, last.name],
+					version,
+				),
+			}),
+		};
+	}
+
+	// BM25 scores depend on the whole index, so any write to it can
+	// reorder search results. FTS5 rewrites the structure record
+	// (id 10) of its data table on every write, and the averages
+	// record (id 1) holds the corpus statistics scores are built from.
+	private search_index_version(): Buffer[] {
+		return this.db
 			.prepare(
-				'SELECT name, entity_type FROM entities ORDER BY created_at DESC LIMIT ?',
+				`SELECT block FROM memory_fts_data WHERE id IN (1, 10)
+         UNION ALL
+         SELECT block FROM relations_fts_data WHERE id IN (1, 10)`,
 			)
-			.all(limit) as Array<{ name: string; entity_type: string }>;
-
-		const entities: Entity[] = [];
-		for (const row of results) {
-			const name = row.name;
-			const observations = this.db
-				.prepare(
-					'SELECT content FROM observations WHERE entity_name = ?',
-				)
-				.all(name) as Array<{ content: string }>;
+			.pluck()
+			.all() as Buffer[];
+	}
 
-			entities.push({
-				name,
-				entityType: row.entity_type,
-				observations: observations.map((obs) => obs.content),
+	// A page of entities matching a filter, in one of the
+	// ENTITY_SORTS orders
+	private list_entities<TDetailed extends boolean>(
+		filter: EntityFilter,
+		options: ListEntitiesOptions,
+		detailed: TDetailed | undefined,
+		namespace: string,
+	): Omit<
+		GraphPage<Entity<ObservationView<TDetailed>>>,
+		'relations'
+	> {
+		const { sort = 'recent', cursor } = options;
+		const order = ENTITY_SORTS[sort];
+		if (!order) {
+			throw new ValidationError(`Unknown sort: ${sort}`, {
+				field: 'sort',
 			});
 		}
-
-		return entities;
+		const limit = clamp_limit(options.limit);
+		const scope = ['entities', namespace, sort, filter];
+		const after = decode_cursor(cursor, scope);
+
+		const { conditions, params } = build_entity_filter(filter);
+		const where = [
+			'(@namespace = @all OR e.namespace = @namespace)',
+			...conditions,
+		].join(' AND ');
+		const degree =
+			sort === 'most-connected'
+				? `(SELECT COUNT(*) FROM relations r
+             WHERE r.namespace = e.namespace AND r.source = e.name)
+           + (SELECT COUNT(*) FROM relations r
+             WHERE r.namespace = e.namespace AND r.target = e.name)`
+				: '0';
+		const bind = { ...params, namespace, all: ALL_NAMESPACES };
+
+		const { total } = this.db
+			.prepare(
+				`SELECT COUNT(*) AS total FROM entities e WHERE ${where}`,
+			)
+			.get(bind) as { total: number };
+		const rows = this.db
+			.prepare(
+				`
+        WITH listed AS (
+          SELECT
+            e.namespace,
+            e.name,
+            e.entity_type,
+            e.created_at,
+            ${degree} AS degree
+          FROM entities e
+          WHERE ${where}
+        )
+        SELECT * FROM listed
+        ${after ? `WHERE ${order.after}` : ''}
+        ORDER BY ${order.order}
+        LIMIT @limit
+      `,
+			)
+			.all({
+				...bind,
+				...(after && cursor_params(after, order.key.length)),
+				limit: limit + 1,
+			}) as Array<EntityRow & Record<string, unknown>>;
+
+		const page_rows = rows.slice(0, limit);
+		const last = page_rows[page_rows.length - 1];
+		return {
+			entities: this.to_entities(
+				page_rows,
+				detailed,
+				namespace === ALL_NAMESPACES,
+			),
+			totalCount: total,
+			...(rows.length > limit && {
+				nextCursor: encode_cursor(
+					scope,
+					order.key.map((column) => last[column]),
+				),
+			}),
+		};
 	}
 
-	// Relation operations
-	async create_relations(relations: Relation[]): Promise<void> {
+	async update_observation(
+		id: number,
+		content: string,
+		namespace: string = this.default_namespace,
+	): Promise<{ entityName: string; observation: Observation }> {
 		try {
-			if (relations.length === 0) return;
+			this.validate_namespace(namespace);
 
-			const transaction = this.db.transaction(() => {
-				// Use INSERT OR IGNORE to silently skip duplicate relations
-				const insert = this.db.prepare(
-					'INSERT OR IGNORE INTO relations (source, target, relation_type) VALUES (?, ?, ?)',
+			if (typeof content !== 'string' || content.trim() === '') {
+				throw new ValidationError(
+					'Observation content must be a non-empty string',
+					{ field: 'content' },
 				);
-				for (const relation of relations) {
-					insert.run(
-						relation.from,
-						relation.to,
-						relation.relationType,
+			}
+
+			const row = this.db.transaction(() => {
+				const updated = this.db
+					.prepare(
+						`UPDATE observations
+             SET content = ?, updated_at = CURRENT_TIMESTAMP
+             WHERE id = ? AND namespace = ?
+             RETURNING id, entity_name, content, created_at, updated_at`,
+					)
+					.get(content, id, namespace) as ObservationRow | undefined;
+
+				if (updated) {
+					this.record_change(
+						namespace,
+						[updated.entity_name],
+						'update_observation',
 					);
 				}
-			});
+				return updated;
+			})();
 
-			transaction();
+			if (!row) {
+				throw new NotFoundError(`Observation not found: ${id}`, {
+					observationId: id,
+				});
+			}
+
+			return {
+				entityName: row.entity_name,
+				observation: to_observation(row),
+			};
 		} catch (error) {
-			throw new Error(
-				`Failed to create relations: ${
-					error instanceof Error ? error.message : String(error)
-				}`,
-			);
+			throw with_context(error, 'Failed to update observation');
+		}
+	}
+
+	// Build entities from entity rows, loading the observations of all
+	// of them in a single query. With `detailed`, observations are full
+	// records with ids and timestamps instead of plain strings. With
+	// `with_namespace`, each entity names its namespace, for results that
+	// span namespaces.
+	private to_entities<TDetailed extends boolean>(
+		rows: EntityRow[],
+		detailed?: TDetailed,
+		with_namespace = false,
+	): Array<Entity<ObservationView<TDetailed>>> {
+		const key = (namespace: string, name: string) =>
+			JSON.stringify([namespace, name]);
+
+		const observations = new Map<string, ObservationRow[]>();
+		if (rows.length > 0) {
+			const observation_rows = this.db
+				.prepare(
+					`SELECT o.id, o.namespace, o.entity_name, o.content, o.created_at, o.updated_at
+           FROM json_each(?) k
+           JOIN observations o
+             ON o.namespace = json_extract(k.value, '$[0]')
+            AND o.entity_name = json_extract(k.value, '$[1]')
+           ORDER BY o.id`,
+				)
+				.all(
+					JSON.stringify(
+						rows.map((row) => [row.namespace, row.name]),
+					),
+				) as Array<ObservationRow & { namespace: string }>;
+			for (const row of observation_rows) {
+				const row_key = key(row.namespace, row.entity_name);
+				const list = observations.get(row_key) ?? [];
+				list.push(row);
+				observations.set(row_key, list);
+			}
 		}
+
+		return rows.map((row) => ({
+			...(with_namespace && { namespace: row.namespace }),
+			name: row.name,
+			entityType: row.entity_type,
+			observations: (
+				observations.get(key(row.namespace, row.name)) ?? []
+			).map((obs) =>
+				detailed ? to_observation(obs) : obs.content,
+			) as Array<ObservationView<TDetailed>>,
+		}));
 	}
 
-	async delete_entity(name: string): Promise<void> {
+	// Fold duplicate entities into a primary one: their observations
+	// move over unless the primary already has them, their relations
+	// are re-pointed to the primary, and the duplicates are deleted.
+	// Re-pointed relations that become self-loops or already exist on
+	// the primary are dropped.
+	async merge_entities(
+		primary: string,
+		duplicates: string[],
+		strategy: MergeStrategy = 'keep_primary',
+		namespace: string = this.default_namespace,
+	): Promise<MergeEntitiesResult> {
 		try {
-			// Check if entity exists first
-			const existing = this.db
-				.prepare('SELECT name FROM entities WHERE name = ?')
-				.get(name);
+			this.validate_namespace(namespace);
 
-			if (!existing) {
-				throw new Error(`Entity not found: ${name}`);
+			const merged = [...new Set(duplicates)];
+			if (merged.length === 0) {
+				throw new ValidationError(
+					'At least one duplicate is required',
+					{ field: 'duplicates' },
+				);
+			}
+			if (merged.includes(primary)) {
+				throw new ValidationError(
+					`Entity "${primary}" cannot be merged into itself`,
+					{ field: 'duplicates', entityName: primary },
+				);
+			}
+			for (const name of [primary, ...merged]) {
+				if (!this.entity_exists(namespace, name)) {
+					throw new NotFoundError(`Entity not found: ${name}`, {
+						entityName: name,
+					});
+				}
 			}
 
 			const transaction = this.db.transaction(() => {
-				// Delete associated observations first (due to foreign key)
-				this.db
-					.prepare('DELETE FROM observations WHERE entity_name = ?')
-					.run(name);
+				const result: Omit<MergeEntitiesResult, 'entity'> = {
+					merged,
+					observations: { moved: 0, skipped: 0 },
+					relations: {
+						repointed: 0,
+						droppedSelfLoops: 0,
+						droppedDuplicates: 0,
+					},
+				};
+				const touched = new Set([primary, ...merged]);
+				const names = JSON.stringify(merged);
+
+				// Move observations, oldest first, keeping their ids and
+				// timestamps. Ones the primary already has are deleted with
+				// the duplicate.
+				const contents = new Set(
+					(
+						this.db
+							.prepare(
+								'SELECT content FROM observations WHERE namespace = ? AND entity_name = ?',
+							)
+							.all(namespace, primary) as Array<{ content: string }>
+					).map((row) => row.content),
+				);
+				const observations = this.db
+					.prepare(
+						`SELECT id, content FROM observations
+             WHERE namespace = ?
+               AND entity_name IN (SELECT value FROM json_each(?))
+             ORDER BY id`,
+					)
+					.all(namespace, names) as Array<{
+					id: number;
+					content: string;
+				}>;
+				const move_observation = this.db.prepare(
+					'UPDATE observations SET entity_name = ? WHERE id = ?',
+				);
+				for (const row of observations) {
+					if (contents.has(row.content)) {
+						result.observations.skipped++;
+						continue;
+					}
+					move_observation.run(primary, row.id);
+					contents.add(row.content);
+					result.observations.moved++;
+				}
 
-				// Delete associated relations (due to foreign key)
-				this.db
+				// Re-point relations. Each one is checked against the
+				// relations already in place, so none hits the UNIQUE
+				// constraint.
+				const relations = this.db
 					.prepare(
-						'DELETE FROM relations WHERE source = ? OR target = ?',
+						`SELECT id, ${RELATION_COLUMNS} FROM relations
+             WHERE namespace = @namespace
+               AND (source IN (SELECT value FROM json_each(@names))
+                 OR target IN (SELECT value FROM json_each(@names)))
+             ORDER BY id`,
 					)
-					.run(name, name);
+					.all({ namespace, names }) as Array<
+					RelationRow & { id: number }
+				>;
+				const find_relation = this.db.prepare(
+					`SELECT id, ${RELATION_COLUMNS} FROM relations
+           WHERE namespace = ? AND source = ? AND target = ? AND relation_type = ?`,
+				);
+				const delete_relation = this.db.prepare(
+					'DELETE FROM relations WHERE id = ?',
+				);
+				const repoint_relation = this.db.prepare(
+					'UPDATE relations SET source = ?, target = ? WHERE id = ?',
+				);
+				const combine_relation = this.db.prepare(
+					`UPDATE relations
+           SET description = ?, strength = ?, tags = ?, properties = ?
+           WHERE id = ?`,
+				);
+				const to_primary = (name: string) =>
+					merged.includes(name) ? primary : name;
+
+				for (const row of relations) {
+					touched.add(row.source);
+					const source = to_primary(row.source);
+					const target = to_primary(row.target);
+
+					if (source === target) {
+						delete_relation.run(row.id);
+						result.relations.droppedSelfLoops++;
+						continue;
+					}
+
+					const existing = find_relation.get(
+						namespace,
+						source,
+						target,
+						row.relation_type,
+					) as (RelationRow & { id: number }) | undefined;
+					if (existing) {
+						if (strategy === 'combine') {
+							combine_relation.run(
+								...combine_relation_properties(existing, row),
+								existing.id,
+							);
+						}
+						delete_relation.run(row.id);
+						result.relations.droppedDuplicates++;
+						continue;
+					}
+
+					repoint_relation.run(source, target, row.id);
+					result.relations.repointed++;
+				}
 
-				// Delete the entity
-				this.db
-					.prepare('DELETE FROM entities WHERE name = ?')
-					.run(name);
+				for (const name of merged) {
+					this.remove_entity(namespace, name);
+				}
+
+				this.record_change(namespace, touched, 'merge_entities');
+				return result;
 			});
 
-			transaction();
+			const result = transaction();
+			return {
+				entity: await this.get_entity(primary, false, namespace),
+				...result,
+			};
 		} catch (error) {
-			throw new Error(
-				`Failed to delete entity "${name}": ${
-					error instanceof Error ? error.message : String(error)
-				}`,
+			throw with_context(
+				error,
+				`Failed to merge entities into "${primary}"`,
 			);
 		}
 	}
 
-	async delete_relation(
-		source: string,
-		target: string,
-		type: string,
-	): Promise<void> {
+	// Rename an entity along with its observations, its relations and
+	// its history. The entity keeps its creation time. If the new name
+	// is taken, either fail or, with `merge`, merge into that entity.
+	async rename_entity(
+		old_name: string,
+		new_name: string,
+		merge = false,
+		namespace: string = this.default_namespace,
+	): Promise<RenameEntityResult> {
 		try {
-			const result = this.db
-				.prepare(
-					'DELETE FROM relations WHERE source = ? AND target = ? AND relation_type = ?',
-				)
-				.run(source, target, type);
-
-			if (result.changes === 0) {
-				throw new Error(
-					`Relation not found: ${source} -> ${target} (${type})`,
+			this.validate_namespace(namespace);
+			if (typeof new_name !== 'string' || new_name.trim() === '') {
+				throw new ValidationError(
+					'New name must be a non-empty string',
+					{ field: 'newName' },
+				);
+			}
+			if (!this.entity_exists(namespace, old_name)) {
+				throw new NotFoundError(`Entity not found: ${old_name}`, {
+					entityName: old_name,
+				});
+			}
+			if (new_name === old_name) {
+				throw new ValidationError(
+					'New name is the same as the old name',
+					{ field: 'newName' },
 				);
 			}
-		} catch (error) {
-			throw new Error(
-				`Failed to delete relation: ${
-					error instanceof Error ? error.message : String(error)
-				}`,
-			);
-		}
-	}
 
-	async get_relations_for_entities(
-		entities: Entity[],
-	): Promise<Relation[]> {
-		if (entities.length === 0) return [];
+			if (this.entity_exists(namespace, new_name)) {
+				if (!merge) {
+					throw new ConflictError(
+						`Entity "${new_name}" already exists; pass merge to merge into it`,
+						{ entityName: new_name },
+					);
+				}
+				const result = await this.merge_entities(
+					new_name,
+					[old_name],
+					'combine',
+					namespace,
+				);
+				return {
+					entity: result.entity,
+					oldName: old_name,
+					merged: true,
+					observations: result.observations.moved,
+					relations: result.relations.repointed,
+				};
+			}
 
-		const entity_names = entities.map((e) => e.name);
-		const placeholders = entity_names.map(() => '?').join(',');
+			const transaction = this.db.transaction(() => {
+				// The references are updated one table at a time, so the
+				// foreign keys are only checked at commit
+				this.db.pragma('defer_foreign_keys = ON');
 
-		const results = this.db
-			.prepare(
-				`
-        SELECT source as from_entity, target as to_entity, relation_type
-        FROM relations
-        WHERE source IN (${placeholders})
-        OR target IN (${placeholders})
-      `,
-			)
-			.all(...entity_names, ...entity_names) as Array<{
-			from_entity: string;
-			to_entity: string;
-			relation_type: string;
-		}>;
+				const sources = (
+					this.db
+						.prepare(
+							'SELECT DISTINCT source FROM relations WHERE namespace = ? AND target = ?',
+						)
+						.all(namespace, old_name) as Array<{ source: string }>
+				).map((row) => row.source);
 
-		return results.map((row) => ({
-			from: row.from_entity,
-			to: row.to_entity,
-			relationType: row.relation_type,
-		}));
-	}
+				this.db
+					.prepare(
+						'UPDATE entities SET name = ? WHERE namespace = ? AND name = ?',
+					)
+					.run(new_name, namespace, old_name);
+				const observations = this.db
+					.prepare(
+						'UPDATE observations SET entity_name = ? WHERE namespace = ? AND entity_name = ?',
+					)
+					.run(new_name, namespace, old_name).changes;
+				const relation_ids = new Set(
+					(
+						this.db
+							.prepare(
+								`UPDATE relations SET source = @new_name
+                 WHERE namespace = @namespace AND source = @old_name
+                 RETURNING id`,
+							)
+							.all({ namespace, old_name, new_name }) as Array<{
+							id: number;
+						}>
+					).map((row) => row.id),
+				);
+				for (const { id } of this.db
+					.prepare(
+						`UPDATE relations SET target = @new_name
+             WHERE namespace = @namespace AND target = @old_name
+             RETURNING id`,
+					)
+					.all({ namespace, old_name, new_name }) as Array<{
+					id: number;
+				}>) {
+					relation_ids.add(id);
+				}
 
-	async get_entity_with_relations(
-		name: string,
-	): Promise<{ entity: Entity; relations: Relation[]; relatedEntities: Entity[] }> {
-		// Get the main entity
-		const entity = await this.get_entity(name);
+				// Carry the history over, after any versions recorded for
+				// an earlier entity of the new name
+				const { latest } = this.db
+					.prepare(
+						`SELECT IFNULL(MAX(version), 0) AS latest FROM entity_versions
+             WHERE namespace = ? AND entity_name = ?`,
+					)
+					.get(namespace, new_name) as { latest: number };
+				this.db
+					.prepare(
+						`UPDATE entity_versions
+             SET entity_name = ?, version = version + ?
+             WHERE namespace = ? AND entity_name = ?`,
+					)
+					.run(new_name, latest, namespace, old_name);
 
-		// Get all relations where this entity is source or target
-		const relations = await this.get_relations_for_entities([entity]);
+				this.record_change(
+					namespace,
+					[new_name, ...sources.filter((name) => name !== old_name)],
+					'rename_entity',
+				);
+				return { observations, relations: relation_ids.size };
+			});
 
-		// Get all related entity names
-		const related_names = new Set<string>();
-		for (const rel of relations) {
-			if (rel.from !== name) related_names.add(rel.from);
-			if (rel.to !== name) related_names.add(rel.to);
+			const counts = transaction();
+			return {
+				entity: await this.get_entity(new_name, false, namespace),
+				oldName: old_name,
+				merged: false,
+				...counts,
+			};
+		} catch (error) {
+			throw with_context(
+				error,
+				`Failed to rename entity "${old_name}"`,
+			);
 		}
+	}
 
-		// Fetch all related entities
-		const relatedEntities: Entity[] = [];
-		for (const related_name of related_names) {
-			try {
-				const related_entity = await this.get_entity(related_name);
-				relatedEntities.push(related_entity);
-			} catch (error) {
-				// Skip entities that no longer exist
-				console.warn(
-					`Related entity "${related_name}" not found: ${
-						error instanceof Error ? error.message : String(error)
-					}`,
+	// Relation operations
+	// Create relations, reporting what happened to each. Duplicates of
+	// stored relations are left alone, as are relations whose symmetric
+	// or inverse counterpart is stored. Relations to missing entities
+	// are skipped, or fail the call when atomic, unless
+	// autoCreateEntities creates the missing ends.
+	async create_relations(
+		relations: Relation[],
+		options: CreateRelationsOptions = {},
+		namespace: string = this.default_namespace,
+	): Promise<CreateRelationsResult> {
+		const { autoCreateEntities, atomic = false } = options;
+		const placeholder_type = autoCreateEntities?.entityType;
+		try {
+			this.validate_namespace(namespace);
+			if (
+				autoCreateEntities &&
+				(typeof autoCreateEntities.entityType !== 'string' ||
+					autoCreateEntities.entityType.trim() === '')
+			) {
+				throw new ValidationError(
+					'autoCreateEntities needs a non-empty entityType',
+					{ field: 'autoCreateEntities' },
 				);
 			}
+
+			const transaction = this.db.transaction(() => {
+				// OR IGNORE skips duplicates, which then change no rows
+				const insert = this.db.prepare(
+					`INSERT OR IGNORE INTO relations
+           (namespace, source, target, relation_type, description, strength, tags, properties)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+				);
+				const insert_entity = this.db.prepare(
+					'INSERT INTO entities (namespace, name, entity_type) VALUES (?, ?, ?)',
+				);
+				const entity_type = this.db
+					.prepare(
+						'SELECT entity_type FROM entities WHERE namespace = ? AND name = ?',
+					)
+					.pluck();
+				const relation_exists = this.db.prepare(
+					'SELECT 1 FROM relations WHERE namespace = ? AND source = ? AND target = ? AND relation_type = ?',
+				);
+				const ontology = this.load_ontology(namespace);
+				const warnings: OntologyWarning[] = [];
+				const created_entities: string[] = [];
+
+				const results = relations.map(
+					(relation, index): CreateRelationResult => {
+						const { from, to, relationType } = relation;
+						try {
+							for (const [field, value] of [
+								['source', from],
+								['target', to],
+								['type', relationType],
+							]) {
+								if (
+									typeof value !== 'string' ||
+									value.trim() === ''
+								) {
+									throw new ValidationError(
+										`Relation ${field} must be a non-empty string`,
+										{ field },
+									);
+								}
+							}
+							validate_relation_properties(relation);
+
+							const missing = [...new Set([from, to])].filter(
+								(name) => !this.entity_exists(namespace, name),
+							);
+							if (missing.length > 0 && !placeholder_type) {
+								return {
+									from,
+									to,
+									relationType,
+									outcome: missing.includes(from)
+										? 'missing_source'
+										: 'missing_target',
+									missing,
+								};
+							}
+
+							// Placeholders are checked like any other entity,
+							// before anything is written for the relation
+							const type_of = (name: string) =>
+								missing.includes(name)
+									? placeholder_type
+									: (entity_type.get(namespace, name) as string);
+							const problems = [
+								...(missing.length > 0
+									? [check_entity_type(ontology, placeholder_type!)]
+									: []),
+								check_relation(
+									ontology,
+									relationType,
+									type_of(from),
+									type_of(to),
+								),
+							];
+							for (const problem of problems) {
+								const rejected = this.ontology_rejects(
+									problem,
+									index,
+									warnings,
+								);
+								if (rejected) {
+									return {
+										from,
+										to,
+										relationType,
+										outcome: 'rejected',
+										...rejected,
+									};
+								}
+							}
+
+							// A symmetric relation stored the other way round, or
+							// its inverse, already states the same fact
+							const reverse_type = reverse_relation_type(
+								ontology,
+								relationType,
+							);
+							if (
+								reverse_type !== undefined &&
+								relation_exists.get(namespace, to, from, reverse_type)
+							) {
+								return {
+									from,
+									to,
+									relationType,
+									outcome: 'already_exists',
+								};
+							}
+
+							for (const name of missing) {
+								insert_entity.run(namespace, name, placeholder_type);
+								created_entities.push(name);
+							}
+
+							const { changes } = insert.run(
+								namespace,
+								from,
+								to,
+								relationType,
+								relation.description ?? null,
+								relation.strength ?? null,
+								relation.tags ? JSON.stringify(relation.tags) : null,
+								relation.properties
+									? JSON.stringify(relation.properties)
+									: null,
+							);
+							return {
+								from,
+								to,
+								relationType,
+								outcome: changes > 0 ? 'created' : 'already_exists',
+							};
+						} catch (error) {
+							throw with_details(error, {
+								index,
+								source: from,
+								target: to,
+								relationType,
+							});
+						}
+					},
+				);
+
+				const failed = results
+					.map((result, index) => ({ index, ...result }))
+					.filter((result) => result.missing || result.message);
+				if (atomic && failed.some((result) => result.message)) {
+					throw new ValidationError(
+						`${failed.length} of ${relations.length} relations were rejected by the ontology or refer to missing entities, so none were created`,
+						{ relations: failed },
+					);
+				}
+				if (atomic && failed.length > 0) {
+					throw new NotFoundError(
+						`${failed.length} of ${relations.length} relations refer to missing entities, so none were created`,
+						{ relations: failed },
+					);
+				}
+
+				const created = results.filter(
+					(result) => result.outcome === 'created',
+				);
+				this.record_change(
+					namespace,
+					[
+						...created.map((result) => result.from),
+						...created_entities,
+					],
+					'create_relations',
+					created.map((result) => result.to),
+				);
+				return {
+					relations: results,
+					createdEntities: created_entities,
+					...(warnings.length > 0 && { warnings }),
+				};
+			});
+
+			return transaction();
+		} catch (error) {
+			throw with_context(error, 'Failed to create relations');
 		}
+	}
 
-		return { entity, relations, relatedEntities };
+	async delete_entity(
+		name: string,
+		namespace: string = this.default_namespace,
+	): Promise<void> {
+		try {
+			this.validate_namespace(namespace);
+
+			// Check if entity exists first
+			if (!this.entity_exists(namespace, name)) {
+				throw new NotFoundError(`Entity not found: ${name}`, {
+					entityName: name,
+				});
+			}
+
+			const transaction = this.db.transaction(() => {
+				// Entities whose outgoing relations point at this one
+				const sources = this.remove_entity(namespace, name);
+
+				this.record_change(
+					namespace,
+					[name, ...sources],
+					'delete_entity',
+				);
+			});
+
+			transaction();
+		} catch (error) {
+			throw with_context(error, `Failed to delete entity "${name}"`);
+		}
 	}
 
-	// Graph operations
-	async read_graph(): Promise<{
-		entities: Entity[];
+	async delete_relation(
+		source: string,
+		target: string,
+		type: string,
+		namespace: string = this.default_namespace,
+	): Promise<void> {
+		try {
+			this.validate_namespace(namespace);
+
+			this.db.transaction(() => {
+				const { changes } = this.db
+					.prepare(
+						'DELETE FROM relations WHERE namespace = ? AND source = ? AND target = ? AND relation_type = ?',
+					)
+					.run(namespace, source, target, type);
+				if (changes === 0) {
+					throw new NotFoundError(
+						`Relation not found: ${source} -> ${target} (${type})`,
+						{ source, target, relationType: type },
+					);
+				}
+				this.record_change(namespace, [source], 'delete_relation', [
+					target,
+				]);
+			})();
+		} catch (error) {
+			throw with_context(error, 'Failed to delete relation');
+		}
+	}
+
+	async update_relation(
+		source: string,
+		target: string,
+		type: string,
+		updates: RelationPropertyUpdates,
+		namespace: string = this.default_namespace,
+	): Promise<Relation> {
+		try {
+			this.validate_namespace(namespace);
+			validate_relation_properties(updates);
+
+			// Property names double as column names
+			const assignments: string[] = [];
+			const values: Array<string | number | null> = [];
+			for (const key of RELATION_PROPERTY_KEYS) {
+				const value = updates[key];
+				if (value === undefined) continue;
+				assignments.push(`${key} = ?`);
+				values.push(
+					value === null || typeof value !== 'object'
+						? value
+						: JSON.stringify(value),
+				);
+			}
+
+			const select = this.db.prepare(
+				`SELECT ${RELATION_COLUMNS} FROM relations
+         WHERE namespace = ? AND source = ? AND target = ? AND relation_type = ?`,
+			);
+			if (assignments.length > 0) {
+				this.db.transaction(() => {
+					const { changes } = this.db
+						.prepare(
+							`UPDATE relations SET ${assignments.join(', ')}
+               WHERE namespace = ? AND source = ? AND target = ? AND relation_type = ?`,
+						)
+						.run(...values, namespace, source, target, type);
+					// A missing relation is reported below
+					if (changes === 0) return;
+					this.record_change(namespace, [source], 'update_relation', [
+						target,
+					]);
+				})();
+			}
+
+			const row = select.get(namespace, source, target, type) as
+				| RelationRow
+				| undefined;
+			if (!row) {
+				throw new NotFoundError(
+					`Relation not found: ${source} -> ${target} (${type})`,
+					{ source, target, relationType: type },
+				);
+			}
+			return to_relation(row);
+		} catch (error) {
+			throw with_context(error, 'Failed to update relation');
+		}
+	}
+
+	// Relations touching any of the entities. Entities from a
+	// cross-namespace result carry their own namespace; the others are
+	// looked up in `namespace`.
+	async get_relations_for_entities(
+		entities: Array<Pick<Entity, 'name' | 'namespace'>>,
+		namespace: string = this.default_namespace,
+	): Promise<Relation[]> {
+		if (entities.length === 0) return [];
+
+		const keys = entities.map((e) => [
+			e.namespace ?? namespace,
+			e.name,
+		]);
+		const with_namespace = entities.some((e) => e.namespace);
+
+		const results = this.db
+			.prepare(
+				`
+        WITH keys(namespace, name) AS (
+          SELECT json_extract(value, '$[0]'), json_extract(value, '$[1]')
+          FROM json_each(?)
+        )
+        SELECT r.namespace, ${RELATION_COLUMNS}
+        FROM relations r
+        JOIN keys k ON r.namespace = k.namespace AND r.source = k.name
+        UNION
+        SELECT r.namespace, ${RELATION_COLUMNS}
+        FROM relations r
+        JOIN keys k ON r.namespace = k.namespace AND r.target = k.name
+      `,
+			)
+			.all(JSON.stringify(keys)) as Array<
+			RelationRow & { namespace: string }
+		>;
+
+		return results.map((row) =>
+			with_namespace
+				? { namespace: row.namespace, ...to_relation(row) }
+				: to_relation(row),
+		);
+	}
+
+	async get_entity_with_relations<TDetailed extends boolean = false>(
+		name: string,
+		detailed?: TDetailed,
+		options: NeighborhoodOptions = {},
+		namespace: string = this.default_namespace,
+	): Promise<{
+		entity: Entity<ObservationView<TDetailed>>;
 		relations: Relation[];
+		relatedEntities: Array<
+			Entity<ObservationView<TDetailed>> & { distance: number }
+		>;
+		truncated: boolean;
 	}> {
-		const recent_entities = await this.get_recent_entities();
-		const relations =
-			await this.get_relations_for_entities(recent_entities);
-		return { entities: recent_entities, relations };
+		const {
+			depth = 1,
+			relationTypes,
+			direction = 'both',
+			maxNodes = 50,
+		} = options;
+		const effective_depth = Math.min(Math.max(1, depth), 5);
+		const effective_max_nodes = Math.min(Math.max(1, maxNodes), 200);
+
+		// Get the main entity
+		const entity = await this.get_entity(name, detailed, namespace);
+
+		// Breadth-first expansion: every entity within reach, at its
+		// smallest hop distance, nearest first. One extra row tells
+		// whether the neighbourhood was cut off at maxNodes.
+		const reached = this.db
+			.prepare(
+				`
+        WITH RECURSIVE
+        ${TRAVERSAL_EDGES},
+        reach(node, distance) AS (
+          SELECT @name, 0
+          UNION
+          SELECT e.to_name, r.distance + 1
+          FROM reach r
+          JOIN edges e ON e.from_name = r.node
+          WHERE r.distance < @depth
+        )
+        SELECT node, MIN(distance) AS distance
+        FROM reach
+        WHERE node != @name
+        GROUP BY node
+        ORDER BY distance, node
+        LIMIT @limit
+      `,
+			)
+			.all({
+				namespace,
+				name,
+				depth: effective_depth,
+				direction,
+				types: relationTypes ? JSON.stringify(relationTypes) : null,
+				limit: effective_max_nodes,
+			}) as Array<{ node: string; distance: number }>;
+
+		const truncated = reached.length >= effective_max_nodes;
+		const related = reached.slice(0, effective_max_nodes - 1);
+		const distances = new Map(
+			related.map((row) => [row.node, row.distance]),
+		);
+
+		// Load all related entities and their observations at once
+		const rows = this.db
+			.prepare(
+				`SELECT namespace, name, entity_type FROM entities
+         WHERE namespace = ? AND name IN (SELECT value FROM json_each(?))`,
+			)
+			.all(
+				namespace,
+				JSON.stringify([...distances.keys()]),
+			) as EntityRow[];
+		const found = new Set(rows.map((row) => row.name));
+		for (const related_name of distances.keys()) {
+			if (!found.has(related_name)) {
+				// Skip entities that no longer exist
+				console.warn(`Related entity "${related_name}" not found`);
+			}
+		}
+		const relatedEntities = this.to_entities(rows, detailed)
+			.map((related_entity) => ({
+				...related_entity,
+				distance: distances.get(related_entity.name)!,
+			}))
+			.sort(
+				(a, b) =>
+					a.distance - b.distance || a.name.localeCompare(b.name),
+			);
+
+		// Relations between the entities in the neighbourhood
+		const relations = (
+			this.db
+				.prepare(
+					`
+          SELECT ${RELATION_COLUMNS}
+          FROM relations
+          WHERE namespace = @namespace
+            AND source IN (SELECT value FROM json_each(@names))
+            AND target IN (SELECT value FROM json_each(@names))
+            AND (@types IS NULL OR relation_type IN (SELECT value FROM json_each(@types)))
+        `,
+				)
+				.all({
+					namespace,
+					names: JSON.stringify([name, ...distances.keys()]),
+					types: relationTypes ? JSON.stringify(relationTypes) : null,
+				}) as RelationRow[]
+		).map(to_relation);
+
+		return { entity, relations, relatedEntities, truncated };
+	}
+
+	// Path operations
+	async find_paths(
+		from: string,
+		to: string,
+		options: FindPathsOptions = {},
+		namespace: string = this.default_namespace,
+	): Promise<GraphPath[]> {
+		try {
+			this.validate_namespace(namespace);
+
+			const {
+				maxDepth = 4,
+				relationTypes,
+				direction = 'both',
+				limit = 1,
+			} = options;
+			const effective_depth = Math.min(Math.max(1, maxDepth), 6);
+			const effective_limit = Math.min(Math.max(1, limit), 10);
+
+			for (const name of [from, to]) {
+				if (!this.entity_exists(namespace, name)) {
+					throw new NotFoundError(`Entity not found: ${name}`, {
+						entityName: name,
+					});
+				}
+			}
+
+			// Two recursive walks over the relations. "distance" walks
+			// backwards from `to`, giving each entity within
+			// effective_depth hops its distance to `to`. "paths" then walks
+			// forward from `from`, never revisiting an entity already on
+			// the path and only stepping to entities that can still reach
+			// `to` within effective_depth, so no work goes into dead ends.
+			// It extends the shortest paths first and stops after
+			// MAX_PATH_ROWS partial paths, which bounds the search on
+			// densely connected graphs; the first `limit` paths reaching
+			// `to` are the shortest ones.
+			const rows = this.db
+				.prepare(
+					`
+          WITH RECURSIVE
+          ${TRAVERSAL_EDGES},
+          hops(node, depth) AS (
+            SELECT @to, 0
+            UNION
+            SELECT e.from_name, h.depth + 1
+            FROM hops h
+            JOIN edges e ON e.to_name = h.node
+            WHERE h.depth < @max_depth
+          ),
+          distance AS MATERIALIZED (
+            SELECT node, MIN(depth) AS depth FROM hops GROUP BY node
+          ),
+          paths(node, depth, nodes, relation_ids) AS (
+            SELECT @from, 0, json_array(@from), json_array()
+            UNION ALL
+            SELECT
+              e.to_name,
+              p.depth + 1,
+              json_insert(p.nodes, '$[#]', e.to_name),
+              json_insert(p.relation_ids, '$[#]', e.relation_id)
+            FROM paths p
+            JOIN edges e ON e.from_name = p.node
+            JOIN distance d ON d.node = e.to_name
+            WHERE p.node != @to
+              AND p.depth + 1 + d.depth <= @max_depth
+              AND NOT EXISTS (
+                SELECT 1 FROM json_each(p.nodes) WHERE value = e.to_name
+              )
+            ORDER BY 2
+            LIMIT @max_rows
+          )
+          SELECT depth, nodes, relation_ids
+          FROM paths
+          WHERE node = @to
+          LIMIT @limit
+        `,
+				)
+				.all({
+					namespace,
+					from,
+					to,
+					direction,
+					types: relationTypes ? JSON.stringify(relationTypes) : null,
+					max_depth: effective_depth,
+					max_rows: MAX_PATH_ROWS,
+					limit: effective_limit,
+				}) as Array<{
+				depth: number;
+				nodes: string;
+				relation_ids: string;
+			}>;
+
+			const paths = rows.map((row) => ({
+				length: row.depth,
+				entities: JSON.parse(row.nodes) as string[],
+				relation_ids: JSON.parse(row.relation_ids) as number[],
+			}));
+
+			const relations = this.get_relations_by_id(
+				paths.flatMap((path) => path.relation_ids),
+			);
+			return paths.map(({ relation_ids, ...path }) => ({
+				...path,
+				relations: relation_ids.map((id) => relations.get(id)!),
+			}));
+		} catch (error) {
+			throw with_context(error, 'Path search failed');
+		}
+	}
+
+	private get_relations_by_id(ids: number[]): Map<number, Relation> {
+		if (ids.length === 0) return new Map();
+		const rows = this.db
+			.prepare(
+				`SELECT id, ${RELATION_COLUMNS} FROM relations
+         WHERE id IN (SELECT value FROM json_each(?))`,
+			)
+			.all(JSON.stringify([...new Set(ids)])) as Array<
+			RelationRow & { id: number }
+		>;
+		return new Map(rows.map((row) => [row.id, to_relation(row)]));
+	}
+
+	// Delete an entity with its observations and relations. Returns the
+	// sources of its incoming relations, whose history changes too.
+	private remove_entity(namespace: string, name: string): string[] {
+		const sources = this.db
+			.prepare(
+				'SELECT DISTINCT source FROM relations WHERE namespace = ? AND target = ?',
+			)
+			.all(namespace, name) as Array<{ source: string }>;
+
+		// Delete associated observations first (due to foreign key)
+		this.db
+			.prepare(
+				'DELETE FROM observations WHERE namespace = ? AND entity_name = ?',
+			)
+			.run(namespace, name);
+
+		// Delete associated relations (due to foreign key)
+		this.db
+			.prepare(
+				'DELETE FROM relations WHERE namespace = ? AND (source = ? OR target = ?)',
+			)
+			.run(namespace, name, name);
+
+		// Delete the entity
+		this.db
+			.prepare(
+				'DELETE FROM entities WHERE namespace = ? AND name = ?',
+			)
+			.run(namespace, name);
+
+		return sources.map((row) => row.source);
+	}
+
+	// History operations
+	async get_entity_history(
+		name: string,
+		namespace: string = this.default_namespace,
+	): Promise<EntityVersion[]> {
+		this.validate_namespace(namespace);
+		const versions = get_versions(this.db, namespace, name);
+		if (versions.length === 0) {
+			throw new NotFoundError(
+				`No history found for entity: ${name}`,
+				{ entityName: name },
+			);
+		}
+		return versions;
+	}
+
+	// Roll an entity back to a recorded version: its type, its
+	// observations and its outgoing relations. Observations and
+	// relations that are unchanged keep their ids and timestamps.
+	// Restoring a deleted version deletes the entity.
+	async restore_entity_version(
+		name: string,
+		version: number,
+		namespace: string = this.default_namespace,
+	): Promise<RestoreEntityResult> {
+		try {
+			this.validate_namespace(namespace);
+			const snapshot = get_version_snapshot(
+				this.db,
+				namespace,
+				name,
+				version,
+			);
+			if (!snapshot) {
+				throw new NotFoundError(
+					`Version ${version} not found for entity: ${name}`,
+					{ entityName: name, version },
+				);
+			}
+
+			const skippedRelations: Relation[] = [];
+			const transaction = this.db.transaction(() => {
+				if (snapshot.deleted) {
+					const sources = this.remove_entity(namespace, name);
+					return this.record_change(
+						namespace,
+						[name, ...sources],
+						`restore:${version}`,
+					);
+				}
+
+				this.db
+					.prepare(
+						`INSERT INTO entities (namespace, name, entity_type) VALUES (?, ?, ?)
+             ON CONFLICT(namespace, name) DO UPDATE SET entity_type = excluded.entity_type`,
+					)
+					.run(namespace, name, snapshot.entityType);
+
+				this.replace_observations(
+					namespace,
+					name,
+					snapshot.observations,
+				);
+
+				// Same for outgoing relations, restoring their properties
+				const keep = new Set(
+					snapshot.relations.map((r) =>
+						JSON.stringify([r.to, r.relationType]),
+					),
+				);
+				const existing = this.db
+					.prepare(
+						'SELECT id, target, relation_type FROM relations WHERE namespace = ? AND source = ?',
+					)
+					.all(namespace, name) as Array<{
+					id: number;
+					target: string;
+					relation_type: string;
+				}>;
+				const delete_rel = this.db.prepare(
+					'DELETE FROM relations WHERE id = ?',
+				);
+				for (const row of existing) {
+					if (
+						!keep.has(JSON.stringify([row.target, row.relation_type]))
+					) {
+						delete_rel.run(row.id);
+					}
+				}
+
+				const upsert_rel = this.db.prepare(
+					`INSERT INTO relations
+           (namespace, source, target, relation_type, description, strength, tags, properties)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT(namespace, source, target, relation_type) DO UPDATE SET
+             description = excluded.description,
+             strength = excluded.strength,
+             tags = excluded.tags,
+             properties = excluded.properties`,
+				);
+				for (const relation of snapshot.relations) {
+					if (
+						relation.to !== name &&
+						!this.entity_exists(namespace, relation.to)
+					) {
+						skippedRelations.push(relation);
+						continue;
+					}
+					upsert_rel.run(
+						namespace,
+						name,
+						relation.to,
+						relation.relationType,
+						relation.description ?? null,
+						relation.strength ?? null,
+						relation.tags ? JSON.stringify(relation.tags) : null,
+						relation.properties
+							? JSON.stringify(relation.properties)
+							: null,
+					);
+				}
+
+				return this.record_change(
+					namespace,
+					[name],
+					`restore:${version}`,
+				);
+			});
+
+			const recorded = transaction();
+
+			return {
+				entity: snapshot.deleted
+					? null
+					: await this.get_entity(name, false, namespace),
+				restoredVersion: version,
+				newVersion: recorded.get(name) ?? null,
+				skippedRelations,
+			};
+		} catch (error) {
+			throw with_context(error, `Failed to restore entity "${name}"`);
+		}
 	}
 
-	async search_nodes(
+	// Graph operations
+	async read_graph<TDetailed extends boolean = false>(
+		options: ReadGraphOptions = {},
+		detailed?: TDetailed,
+		namespace: string = this.default_namespace,
+	): Promise<GraphPage<Entity<ObservationView<TDetailed>>>> {
+		try {
+			const { entityType, ...page } = options;
+			const { entities, ...paging } = this.list_entities(
+				{ entityType },
+				page,
+				detailed,
+				namespace,
+			);
+			const relations = await this.get_relations_for_entities(
+				entities,
+				namespace,
+			);
+			return { entities, relations, ...paging };
+		} catch (error) {
+			throw with_context(error, 'Failed to read graph');
+		}
+	}
+
+	async search_nodes<TDetailed extends boolean = false>(
 		query: string,
-		limit: number = 10,
-	): Promise<{ entities: Entity[]; relations: Relation[] }> {
+		page: PageOptions = {},
+		detailed?: TDetailed,
+		namespace: string = this.default_namespace,
+	): Promise<GraphPage<SearchResult<ObservationView<TDetailed>>>> {
 		try {
 			// Validate text query
 			if (typeof query !== 'string') {
-				throw new Error('Text query must be a string');
+				throw new ValidationError('Text query must be a string', {
+					field: 'query',
+				});
 			}
 			if (query.trim() === '') {
-				throw new Error('Text query cannot be empty');
+				throw new ValidationError('Text query cannot be empty', {
+					field: 'query',
+				});
 			}
 
 			// Text-based search
-			const entities = await this.search_entities(query, limit);
+			const { entities, ...paging } = await this.search_entities(
+				query,
+				page,
+				detailed,
+				namespace,
+			);
+
+			const relations = await this.get_relations_for_entities(
+				entities,
+				namespace,
+			);
+			return { entities, relations, ...paging };
+		} catch (error) {
+			throw with_context(error, 'Node search failed');
+		}
+	}
+
+	// Find entities matching structured filters, with the relations
+	// touching them. Pages and limits work as in read_graph.
+	async search_advanced<TDetailed extends boolean = false>(
+		filter: EntityFilter,
+		options: ListEntitiesOptions = {},
+		detailed?: TDetailed,
+		namespace: string = this.default_namespace,
+	): Promise<GraphPage<Entity<ObservationView<TDetailed>>>> {
+		try {
+			const { entities, ...paging } = this.list_entities(
+				filter,
+				options,
+				detailed,
+				namespace,
+			);
+			const relations = await this.get_relations_for_entities(
+				entities,
+				namespace,
+			);
+			return { entities, relations, ...paging };
+		} catch (error) {
+			throw with_context(error, 'Advanced search failed');
+		}
+	}
+
+	// Import and export
+	async list_entity_types(
+		namespace: string = this.default_namespace,
+	): Promise<EntityTypeSummary[]> {
+		return this.db
+			.prepare(
+				`SELECT entity_type AS entityType, COUNT(*) AS entities
+         FROM entities
+         WHERE namespace = ?
+         GROUP BY entity_type
+         ORDER BY entity_type`,
+			)
+			.all(namespace) as EntityTypeSummary[];
+	}
+
+	// Names starting with prefix, in name order
+	async find_entity_names(
+		prefix: string,
+		limit = 50,
+		namespace: string = this.default_namespace,
+	): Promise<string[]> {
+		const rows = this.db
+			.prepare(
+				`SELECT name FROM entities
+         WHERE namespace = ? AND name LIKE ? ESCAPE '\\'
+         ORDER BY name
+         LIMIT ?`,
+			)
+			.all(
+				namespace,
+				`${escape_like(prefix)}%`,
+				clamp_limit(limit),
+			) as Array<{ name: string }>;
+		return rows.map((row) => row.name);
+	}
+
+	// Size and shape of a namespace, or of every namespace with "all"
+	async get_stats(
+		options: StatsOptions = {},
+		namespace: string = this.default_namespace,
+	): Promise<MemoryStats> {
+		const { limit, period = 'month' } = options;
+		try {
+			return collect_stats(
+				this.db,
+				namespace,
+				namespace === ALL_NAMESPACES,
+				clamp_limit(limit),
+				period,
+			);
+		} catch (error) {
+			throw with_context(error, 'Failed to get stats');
+		}
+	}
+
+	// Look for corruption and for rows that break the model: relations
+	// and observations of missing entities, repeated observations, and
+	// blank names and types. With repair, fix what was found in one
+	// transaction; a database that fails integrity_check is left alone.
+	async check_integrity(
+		options: IntegrityOptions = {},
+		namespace: string = this.default_namespace,
+	): Promise<IntegrityReport> {
+		const { repair = false, limit } = options;
+		const all = namespace === ALL_NAMESPACES;
+		try {
+			const report = find_integrity_issues(
+				this.db,
+				namespace,
+				all,
+				clamp_limit(limit),
+			);
+			if (!repair) return report;
+			if (report.integrityErrors.length > 0) {
+				throw new ConflictError(
+					'integrity_check found corruption, which cannot be repaired here; restore the database from a backup',
+					{ integrityErrors: report.integrityErrors },
+				);
+			}
+
+			const transaction = this.db.transaction(() => {
+				const { repaired, entities } = repair_integrity_issues(
+					this.db,
+					namespace,
+					all,
+				);
+				for (const [ns, { names, related }] of entities) {
+					this.record_change(ns, names, 'repair', related);
+				}
+				return repaired;
+			});
+			return { ...report, repaired: transaction() };
+		} catch (error) {
+			throw with_context(error, 'Failed to check integrity');
+		}
+	}
+
+	// Likely duplicates and orphans, at most limit of each
+	async find_cleanup_candidates(
+		limit = 50,
+		namespace: string = this.default_namespace,
+	): Promise<CleanupCandidates> {
+		this.validate_namespace(namespace);
+		const rows = this.db
+			.prepare(
+				'SELECT name, entity_type FROM entities WHERE namespace = ? ORDER BY name',
+			)
+			.all(namespace) as Array<{ name: string; entity_type: string }>;
+
+		const groups = new Map<
+			string,
+			Array<{ name: string; entityType: string }>
+		>();
+		for (const row of rows) {
+			const key = row.name
+				.toLowerCase()
+				.replace(/[^\p{L}\p{N}]/gu, '');
+			if (!key) continue;
+			const group = groups.get(key) ?? [];
+			group.push({ name: row.name, entityType: row.entity_type });
+			groups.set(key, group);
+		}
+		const duplicates = [...groups.values()]
+			.filter((group) => group.length > 1)
+			.slice(0, clamp_limit(limit));
+
+		const orphan_where = `
+      FROM entities e
+      WHERE e.namespace = @namespace AND ${NO_RELATIONS}`;
+		const orphans = this.db
+			.prepare(
+				`SELECT e.name, e.entity_type AS entityType,
+          (SELECT COUNT(*) FROM observations o
+           WHERE o.namespace = e.namespace AND o.entity_name = e.name) AS observations
+        ${orphan_where}
+        ORDER BY e.name
+        LIMIT @limit`,
+			)
+			.all({
+				namespace,
+				limit: clamp_limit(limit),
+			}) as CleanupCandidates['orphans'];
+		const { total } = this.db
+			.prepare(`SELECT COUNT(*) AS total ${orphan_where}`)
+			.get({ namespace }) as { total: number };
+
+		return { duplicates, orphans, totalOrphans: total };
+	}
+
+	async export_graph(
+		format: GraphFormat = 'json',
+		namespace: string = this.default_namespace,
+	): Promise<string> {
+		try {
+			this.validate_namespace(namespace);
+			return format_graph(
+				this.iterate_graph(namespace),
+				format,
+				namespace,
+			);
+		} catch (error) {
+			throw with_context(error, 'Failed to export graph');
+		}
+	}
+
+	// Every entity with its observations, then every relation, read row
+	// by row instead of loading the whole graph up front
+	private *iterate_graph(namespace: string): Generator<GraphRecord> {
+		const rows = this.db
+			.prepare(
+				`SELECT e.name, e.entity_type, o.content
+         FROM entities e
+         LEFT JOIN observations o
+           ON o.namespace = e.namespace AND o.entity_name = e.name
+         WHERE e.namespace = ?
+         ORDER BY e.created_at, e.name, o.id`,
+			)
+			.iterate(namespace) as IterableIterator<{
+			name: string;
+			entity_type: string;
+			content: string | null;
+		}>;
+
+		let entity: (GraphRecord & { type: 'entity' }) | undefined;
+		for (const row of rows) {
+			if (!entity || entity.name !== row.name) {
+				if (entity) yield entity;
+				entity = {
+					type: 'entity',
+					name: row.name,
+					entityType: row.entity_type,
+					observations: [],
+				};
+			}
+			if (row.content !== null) entity.observations.push(row.content);
+		}
+		if (entity) yield entity;
+
+		const relations = this.db
+			.prepare(
+				`SELECT ${RELATION_COLUMNS} FROM relations
+         WHERE namespace = ?
+         ORDER BY id`,
+			)
+			.iterate(namespace) as IterableIterator<RelationRow>;
+		for (const row of relations) {
+			yield { type: 'relation', ...to_relation(row) };
+		}
+	}
+
+	// Load an exported graph into a namespace in a single transaction.
+	// Relations whose source or target is neither imported nor already
+	// stored are skipped.
+	async import_graph(
+		data: string,
+		options: ImportGraphOptions = {},
+		namespace: string = this.default_namespace,
+	): Promise<ImportGraphResult> {
+		const { format = 'json', strategy = 'merge' } = options;
+		try {
+			this.validate_namespace(namespace);
+			const graph = parse_graph(data, format);
+
+			const transaction = this.db.transaction(() => {
+				const result: ImportGraphResult = {
+					strategy,
+					entities: empty_counts(),
+					relations: empty_counts(),
+				};
+				const touched = new Set<string>();
+				// Imported entity types and new relations are checked
+				// against the ontology like create_entities and
+				// create_relations check them
+				const ontology = this.load_ontology(namespace);
+				const warnings = {
+					entities: [] as OntologyWarning[],
+					relations: [] as OntologyWarning[],
+				};
+
+				const select_entity = this.db.prepare(
+					'SELECT entity_type FROM entities WHERE namespace = ? AND name = ?',
+				);
+				for (const [index, entity] of graph.entities.entries()) {
+					const existing = select_entity.get(
+						namespace,
+						entity.name,
+					) as { entity_type: string } | undefined;
+					if (
+						!existing ||
+						(strategy !== 'skip_existing' &&
+							existing.entity_type !== entity.entityType)
+					) {
+						this.report_ontology_problem(
+							check_entity_type(ontology, entity.entityType),
+							index,
+							warnings.entities,
+							{ entityName: entity.name, field: 'entityType' },
+						);
+					}
+
+					if (!existing) {
+						this.db
+							.prepare(
+								'INSERT INTO entities (namespace, name, entity_type) VALUES (?, ?, ?)',
+							)
+							.run(namespace, entity.name, entity.entityType);
+						this.insert_observations(
+							namespace,
+							entity.name,
+							entity.observations,
+						);
+						result.entities.created++;
+						touched.add(entity.name);
+						continue;
+					}
+					if (strategy === 'skip_existing') {
+						result.entities.skipped++;
+						continue;
+					}
+
+					let changed = existing.entity_type !== entity.entityType;
+					if (changed) {
+						this.db
+							.prepare(
+								'UPDATE entities SET entity_type = ? WHERE namespace = ? AND name = ?',
+							)
+							.run(entity.entityType, namespace, entity.name);
+					}
+					if (strategy === 'replace') {
+						changed =
+							this.replace_observations(
+								namespace,
+								entity.name,
+								entity.observations,
+							) || changed;
+					} else {
+						const { added } = this.insert_observations(
+							namespace,
+							entity.name,
+							entity.observations,
+						);
+						changed = added.length > 0 || changed;
+					}
+
+					if (changed) {
+						result.entities.updated++;
+						touched.add(entity.name);
+					} else {
+						result.entities.skipped++;
+					}
+				}
+
+				const imported_names = new Set(
+					graph.entities.map((entity) => entity.name),
+				);
+				const kept = new Set<string>();
+				const select_relation = this.db.prepare(
+					`SELECT id, description, strength, tags, properties
+           FROM relations
+           WHERE namespace = ? AND source = ? AND target = ? AND relation_type = ?`,
+				);
+				const insert_relation = this.db.prepare(
+					`INSERT INTO relations
+           (namespace, source, target, relation_type, description, strength, tags, properties)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+				);
+				const update_relation = this.db.prepare(
+					`UPDATE relations
+           SET description = ?, strength = ?, tags = ?, properties = ?
+           WHERE id = ?`,
+				);
+				for (const [index, relation] of graph.relations.entries()) {
+					// With "replace" only imported entities remain afterwards
+					const endpoints_exist =
+						strategy === 'replace'
+							? imported_names.has(relation.from) &&
+								imported_names.has(relation.to)
+							: this.entity_exists(namespace, relation.from) &&
+								this.entity_exists(namespace, relation.to);
+					if (!endpoints_exist) {
+						result.relations.skipped++;
+						continue;
+					}
+
+					const key = [
+						relation.from,
+						relation.to,
+						relation.relationType,
+					];
+					kept.add(JSON.stringify(key));
+					const values = [
+						relation.description ?? null,
+						relation.strength ?? null,
+						relation.tags ? JSON.stringify(relation.tags) : null,
+						relation.properties
+							? JSON.stringify(relation.properties)
+							: null,
+					];
+					const existing = select_relation.get(namespace, ...key) as
+						| (Pick<
+								RelationRow,
+								(typeof RELATION_PROPERTY_KEYS)[number]
+						  > & { id: number })
+						| undefined;
+
+					if (!existing) {
+						this.report_ontology_problem(
+							check_relation(
+								ontology,
+								relation.relationType,
+								(
+									select_entity.get(namespace, relation.from) as
+										| { entity_type: string }
+										| undefined
+								)?.entity_type,
+								(
+									select_entity.get(namespace, relation.to) as
+										| { entity_type: string }
+										| undefined
+								)?.entity_type,
+							),
+							index,
+							warnings.relations,
+							{
+								source: relation.from,
+								target: relation.to,
+								relationType: relation.relationType,
+								field: 'relationType',
+							},
+						);
+						insert_relation.run(namespace, ...key, ...values);
+						result.relations.created++;
+						touched.add(relation.from);
+						continue;
+					}
+					if (strategy === 'skip_existing') {
+						result.relations.skipped++;
+						continue;
+					}
+
+					// "merge" keeps stored properties the import leaves unset
+					const current = RELATION_PROPERTY_KEYS.map(
+						(property) => existing[property],
+					);
+					const next =
+						strategy === 'replace'
+							? values
+							: values.map((value, i) => value ?? current[i]);
+					if (next.every((value, i) => value === current[i])) {
+						result.relations.skipped++;
+						continue;
+					}
+					update_relation.run(...next, existing.id);
+					result.relations.updated++;
+					touched.add(relation.from);
+				}
+
+				if (strategy === 'replace') {
+					const stored = this.db
+						.prepare(
+							'SELECT id, source, target, relation_type FROM relations WHERE namespace = ?',
+						)
+						.all(namespace) as Array<{
+						id: number;
+						source: string;
+						target: string;
+						relation_type: string;
+					}>;
+					const delete_relation = this.db.prepare(
+						'DELETE FROM relations WHERE id = ?',
+					);
+					for (const row of stored) {
+						const key = [row.source, row.target, row.relation_type];
+						if (kept.has(JSON.stringify(key))) continue;
+						delete_relation.run(row.id);
+						result.relations.deleted++;
+						touched.add(row.source);
+					}
+
+					const stale = this.db
+						.prepare(
+							`SELECT name FROM entities
+               WHERE namespace = ?
+                 AND name NOT IN (SELECT value FROM json_each(?))`,
+						)
+						.all(
+							namespace,
+							JSON.stringify([...imported_names]),
+						) as Array<{ name: string }>;
+					for (const { name } of stale) {
+						this.remove_entity(namespace, name);
+						result.entities.deleted++;
+						touched.add(name);
+					}
+				}
+
+				this.record_change(namespace, touched, 'import_graph');
+				if (
+					warnings.entities.length > 0 ||
+					warnings.relations.length > 0
+				) {
+					result.warnings = warnings;
+				}
+				return result;
+			});
+
+			return transaction();
+		} catch (error) {
+			throw with_context(error, 'Failed to import graph');
+		}
+	}
+
+	// Draw the whole graph, the results of a search or the
+	// neighbourhood of an entity as a GraphML, DOT or Mermaid diagram
+	async render_graph(
+		options: RenderGraphOptions,
+		namespace: string = this.default_namespace,
+	): Promise<string> {
+		const { format, query, limit, entity, ...neighborhood } = options;
+		try {
+			this.validate_namespace(namespace);
+			if (query !== undefined && entity !== undefined) {
+				throw new ValidationError(
+					'Pass either query or entity, not both',
+					{ field: 'entity' },
+				);
+			}
+
+			let entities: Entity[];
+			if (query !== undefined) {
+				({ entities } = await this.search_nodes(
+					query,
+					{ limit },
+					false,
+					namespace,
+				));
+			} else if (entity !== undefined) {
+				const result = await this.get_entity_with_relations(
+					entity,
+					false,
+					neighborhood,
+					namespace,
+				);
+				entities = [result.entity, ...result.relatedEntities];
+			} else {
+				entities = this.to_entities(
+					this.db
+						.prepare(
+							`SELECT namespace, name, entity_type FROM entities
+               WHERE namespace = ?
+               ORDER BY created_at, name`,
+						)
+						.all(namespace) as EntityRow[],
+					false,
+				);
+			}
+
+			// A neighbourhood only follows the requested relation types
+			const { relationTypes } = neighborhood;
+			const relations = (
+				await this.get_relations_for_entities(entities, namespace)
+			).filter(
+				(relation) =>
+					entity === undefined ||
+					!relationTypes ||
+					relationTypes.includes(relation.relationType),
+			);
+			return render_diagram(entities, relations, format);
+		} catch (error) {
+			throw with_context(error, 'Failed to render graph');
+		}
+	}
 
-			// If no entities found, return empty result
-			if (entities.length === 0) {
-				return { entities: [], relations: [] };
+	// Ontology operations
+	async register_types(
+		entity_types: EntityTypeDefinition[] = [],
+		relation_types: RelationTypeDefinition[] = [],
+		namespace: string = this.default_namespace,
+	): Promise<RegisterTypesResult> {
+		try {
+			this.validate_namespace(namespace);
+			return this.db.transaction(() =>
+				register_types(
+					this.db,
+					namespace,
+					entity_types,
+					relation_types,
+				),
+			)();
+		} catch (error) {
+			throw with_context(error, 'Failed to register types');
+		}
+	}
+
+	async list_types(
+		namespace: string = this.default_namespace,
+	): Promise<OntologySummary> {
+		try {
+			this.validate_namespace(namespace);
+			return {
+				mode: this.ontology_mode,
+				...summarise_ontology(this.db, namespace),
+			};
+		} catch (error) {
+			throw with_context(error, 'Failed to list types');
+		}
+	}
+
+	async describe_type(
+		name: string,
+		kind?: TypeKind,
+		namespace: string = this.default_namespace,
+	): Promise<TypeDescription> {
+		try {
+			this.validate_namespace(namespace);
+			const description = describe_type(
+				this.db,
+				namespace,
+				name,
+				kind,
+			);
+			if (!description) {
+				throw new NotFoundError(`Type not found: ${name}`, {
+					typeName: name,
+					...(kind && { kind }),
+				});
 			}
+			return description;
+		} catch (error) {
+			throw with_context(error, `Failed to describe type "${name}"`);
+		}
+	}
+
+	// Namespace operations
+	async list_namespaces(): Promise<NamespaceSummary[]> {
+		return this.db
+			.prepare(
+				`
+        SELECT
+          namespace,
+          COUNT(*) AS entities,
+          (SELECT COUNT(*) FROM observations o WHERE o.namespace = e.namespace) AS observations,
+          (SELECT COUNT(*) FROM relations r WHERE r.namespace = e.namespace) AS relations
+        FROM entities e
+        GROUP BY namespace
+        ORDER BY namespace
+      `,
+			)
+			.all() as NamespaceSummary[];
+	}
+
+	// Delete every entity, observation and relation in a namespace.
+	// History is kept, so deleted entities can still be restored.
+	async delete_namespace(
+		namespace: string,
+	): Promise<Omit<NamespaceSummary, 'namespace'>> {
+		try {
+			this.validate_namespace(namespace);
+
+			const transaction = this.db.transaction(() => {
+				const names = (
+					this.db
+						.prepare('SELECT name FROM entities WHERE namespace = ?')
+						.all(namespace) as Array<{ name: string }>
+				).map((row) => row.name);
+				if (names.length === 0) {
+					throw new NotFoundError(
+						`Namespace not found: ${namespace}`,
+						{ namespace },
+					);
+				}
+
+				const observations = this.db
+					.prepare('DELETE FROM observations WHERE namespace = ?')
+					.run(namespace).changes;
+				const relations = this.db
+					.prepare('DELETE FROM relations WHERE namespace = ?')
+					.run(namespace).changes;
+				const entities = this.db
+					.prepare('DELETE FROM entities WHERE namespace = ?')
+					.run(namespace).changes;
+
+				this.record_change(namespace, names, 'delete_namespace');
+				return { entities, observations, relations };
+			});
 
-			const relations =
-				await this.get_relations_for_entities(entities);
-			return { entities, relations };
+			return transaction();
 		} catch (error) {
-			throw new Error(
-				`Node search failed: ${
-					error instanceof Error ? error.message : String(error)
-				}`,
+			throw with_context(
+				error,
+				`Failed to delete namespace "${namespace}"`,
 			);
 		}
 	}
 
+	// Change notification
+	// Register a listener for committed writes. Returns a function that
+	// removes it.
+	on_change(listener: (change: GraphChange) => void): () => void {
+		this.change_listeners.add(listener);
+		return () => {
+			this.change_listeners.delete(listener);
+		};
+	}
+
+	// Record history for the entities a write touched and report them,
+	// along with entities whose incoming relations changed, to change
+	// listeners. Call inside the write's transaction; listeners run
+	// once it has finished.
+	private record_change(
+		namespace: string,
+		names: Iterable<string>,
+		operation: string,
+		related: Iterable<string> = [],
+	): Map<string, number> {
+		const touched = [...names];
+		const recorded = record_versions(
+			this.db,
+			namespace,
+			touched,
+			operation,
+		);
+
+		const entities = [...new Set([...touched, ...related])];
+		if (this.change_listeners.size > 0 && entities.length > 0) {
+			const change: GraphChange = { namespace, entities };
+			queueMicrotask(() => {
+				for (const listener of this.change_listeners) {
+					listener(change);
+				}
+			});
+		}
+		return recorded;
+	}
+
 	// Database operations
 	public get_client() {
 		return this.db;
 	}
 
-	public async initialize() {
+	// Rebuild the database to reclaim the space left by deleted rows.
+	// In WAL mode the rebuilt pages land in the WAL, so it is folded
+	// back into the main file afterwards.
+	public async vacuum() {
+		try {
+			this.db.exec('VACUUM');
+			this.db.pragma('wal_checkpoint(TRUNCATE)');
+		} catch (error) {
+			throw with_context(error, 'Failed to vacuum database');
+		}
+	}
+
+	// Copy the database to destination with SQLite's online backup, so
+	// writes can carry on while it runs
+	public async backup(destination: string) {
 		try {
-			// Create tables if they don't exist
-			this.db.exec(`
-				CREATE TABLE IF NOT EXISTS entities (
-					name TEXT PRIMARY KEY,
-					entity_type TEXT NOT NULL,
-					created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-				);
-			`);
-
-			this.db.exec(`
-				CREATE TABLE IF NOT EXISTS observations (
-					id INTEGER PRIMARY KEY AUTOINCREMENT,
-					entity_name TEXT NOT NULL,
-					content TEXT NOT NULL,
-					created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-					FOREIGN KEY (entity_name) REFERENCES entities(name)
-				);
-			`);
-
-			this.db.exec(`
-				CREATE TABLE IF NOT EXISTS relations (
-					id INTEGER PRIMARY KEY AUTOINCREMENT,
-					source TEXT NOT NULL,
-					target TEXT NOT NULL,
-					relation_type TEXT NOT NULL,
-					created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-					FOREIGN KEY (source) REFERENCES entities(name),
-					FOREIGN KEY (target) REFERENCES entities(name),
-					UNIQUE(source, target, relation_type)
-				);
-			`);
-
-			// Create indexes
-			this.db.exec(`
-				CREATE INDEX IF NOT EXISTS idx_entities_name ON entities(name);
-			`);
-
-			this.db.exec(`
-				CREATE INDEX IF NOT EXISTS idx_observations_entity ON observations(entity_name);
-			`);
-
-			this.db.exec(`
-				CREATE INDEX IF NOT EXISTS idx_relations_source ON relations(source);
-			`);
-
-			this.db.exec(`
-				CREATE INDEX IF NOT EXISTS idx_relations_target ON relations(target);
-			`);
+			await this.db.backup(destination);
 		} catch (error) {
-			throw new Error(
-				`Database initialization failed: ${
-					error instanceof Error ? error.message : String(error)
-				}`,
+			throw with_context(
+				error,
+				`Failed to back up database to ${destination}`,
 			);
 		}
 	}
 
+	// Apply pending migrations. A read-only connection cannot, so it
+	// only checks that there are none.
+	public migrate() {
+		try {
+			if (this.read_only) {
+				const pending = get_migration_status(this.db, migrations)
+					.filter((status) => !status.applied_at)
+					.map((status) => status.version);
+				if (pending.length > 0) {
+					throw new Error(
+						`migrations ${pending.join(', ')} are pending and the database is read-only; run "mcp-memory-sqlite migrate" first`,
+					);
+				}
+				return [];
+			}
+			return apply_migrations(this.db, migrations);
+		} catch (error) {
+			throw with_context(error, 'Database initialization failed');
+		}
+	}
+
 	public async close() {
 		try {
 			this.db.close();
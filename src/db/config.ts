@@ -1,9 +1,22 @@
+import { OntologyMode } from '../types/index.js';
 import { DatabaseConfig } from './client.js';
 
+const ONTOLOGY_MODES: OntologyMode[] = ['off', 'warn', 'strict'];
+
 export function get_database_config(): DatabaseConfig {
 	const db_path = process.env.SQLITE_DB_PATH || './sqlite-memory.db';
+	const default_namespace = process.env.MEMORY_NAMESPACE || 'default';
+	const ontology_mode = (process.env.MEMORY_ONTOLOGY ||
+		'off') as OntologyMode;
+	if (!ONTOLOGY_MODES.includes(ontology_mode)) {
+		throw new Error(
+			`Invalid MEMORY_ONTOLOGY: ${ontology_mode} (expected ${ONTOLOGY_MODES.join(', ')})`,
+		);
+	}
 
 	return {
 		dbPath: db_path,
+		defaultNamespace: default_namespace,
+		ontologyMode: ontology_mode,
 	};
 }
@@ -0,0 +1,63 @@
+import { createHash } from 'crypto';
+import { ValidationError } from './errors.js';
+
+// Opaque pagination cursors. A cursor holds the sort key of the last
+// item of a page, and the next page starts after that key rather than
+// at an offset, so inserts and deletes elsewhere do not shift it. It
+// also holds a hash of the query it belongs to, so it cannot be
+// replayed against a different one. Where the sort key itself moves
+// when data changes, like a relevance score, the cursor also holds a
+// hash of the data's version and is rejected once that changes.
+
+function scope_hash(scope: unknown): string {
+	return createHash('sha256')
+		.update(JSON.stringify(scope))
+		.digest('base64url')
+		.slice(0, 16);
+}
+
+export function encode_cursor(
+	scope: unknown,
+	key: unknown[],
+	version?: unknown,
+): string {
+	return Buffer.from(
+		JSON.stringify({
+			s: scope_hash(scope),
+			k: key,
+			...(version !== undefined && { v: scope_hash(version) }),
+		}),
+	).toString('base64url');
+}
+
+// Sort key stored in a cursor, or undefined for the first page
+export function decode_cursor(
+	cursor: string | undefined,
+	scope: unknown,
+	version?: unknown,
+): unknown[] | undefined {
+	if (cursor === undefined) return undefined;
+
+	let decoded: { s?: unknown; k?: unknown; v?: unknown } | undefined;
+	try {
+		decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+	} catch {
+		decoded = undefined;
+	}
+	if (!decoded || !Array.isArray(decoded.k)) {
+		throw new ValidationError('Invalid cursor', { field: 'cursor' });
+	}
+	if (decoded.s !== scope_hash(scope)) {
+		throw new ValidationError(
+			'Cursor belongs to a different query; repeat the query with the options it was issued for',
+			{ field: 'cursor' },
+		);
+	}
+	if (version !== undefined && decoded.v !== scope_hash(version)) {
+		throw new ValidationError(
+			'Cursor is stale because memory changed since it was issued; repeat the query without a cursor',
+			{ field: 'cursor' },
+		);
+	}
+	return decoded.k;
+}
@@ -0,0 +1,120 @@
+import Database from 'better-sqlite3';
+
+// Stable codes that tools report errors under
+export type ErrorCode =
+	| 'not_found'
+	| 'validation_failed'
+	| 'conflict'
+	| 'constraint_violation'
+	| 'busy'
+	| 'tool_disabled'
+	| 'internal_error';
+
+// Whatever helps the caller fix the call: the names involved, the
+// index of the offending item, the SQLite error code
+export type ErrorDetails = Record<string, unknown>;
+
+// Errors raised by DatabaseManager, and tool_disabled from the tool
+// policy. Anything else that escapes is reported as an
+// internal_error.
+export class MemoryError extends Error {
+	constructor(
+		readonly code: ErrorCode,
+		message: string,
+		readonly details: ErrorDetails = {},
+	) {
+		super(message);
+		this.name = new.target.name;
+	}
+
+	// Only a busy database clears up by itself; other errors come back
+	// until the call changes
+	get retryable(): boolean {
+		return this.code === 'busy';
+	}
+}
+
+// An entity, observation, relation, version or namespace that does
+// not exist
+export class NotFoundError extends MemoryError {
+	constructor(message: string, details?: ErrorDetails) {
+		super('not_found', message, details);
+	}
+}
+
+// Arguments that are missing, malformed or contradict each other
+export class ValidationError extends MemoryError {
+	constructor(message: string, details?: ErrorDetails) {
+		super('validation_failed', message, details);
+	}
+}
+
+// A write that collides with existing data, such as a name that is
+// already taken
+export class ConflictError extends MemoryError {
+	constructor(message: string, details?: ErrorDetails) {
+		super('conflict', message, details);
+	}
+}
+
+// A write SQLite refused because it breaks a constraint, such as a
+// relation to an entity that does not exist
+export class ConstraintViolationError extends MemoryError {
+	constructor(message: string, details?: ErrorDetails) {
+		super('constraint_violation', message, details);
+	}
+}
+
+// Another connection holds a lock on the database
+export class BusyError extends MemoryError {
+	constructor(message: string, details?: ErrorDetails) {
+		super('busy', message, details);
+	}
+}
+
+// Classify an error by its SQLite result code, if it has one
+export function to_memory_error(error: unknown): MemoryError {
+	if (error instanceof MemoryError) return error;
+
+	const message =
+		error instanceof Error ? error.message : String(error);
+	if (error instanceof Database.SqliteError) {
+		const details = { sqliteCode: error.code };
+		if (/^SQLITE_(BUSY|LOCKED)/.test(error.code)) {
+			return new BusyError(message, details);
+		}
+		if (
+			error.code === 'SQLITE_CONSTRAINT_UNIQUE' ||
+			error.code === 'SQLITE_CONSTRAINT_PRIMARYKEY'
+		) {
+			return new ConflictError(message, details);
+		}
+		if (error.code.startsWith('SQLITE_CONSTRAINT')) {
+			return new ConstraintViolationError(message, details);
+		}
+		return new MemoryError('internal_error', message, details);
+	}
+	return new MemoryError('internal_error', message);
+}
+
+// Prefix an error's message with the operation that failed, keeping
+// its code and details
+export function with_context(
+	error: unknown,
+	context: string,
+): MemoryError {
+	const typed = to_memory_error(error);
+	typed.message = `${context}: ${typed.message}`;
+	return typed;
+}
+
+// Add details, such as which item of a batch was being written, to an
+// error
+export function with_details(
+	error: unknown,
+	details: ErrorDetails,
+): MemoryError {
+	const typed = to_memory_error(error);
+	Object.assign(typed.details, details);
+	return typed;
+}
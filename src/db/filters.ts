@@ -0,0 +1,120 @@
+import { EntityFilter, RelationFilter } from '../types/index.js';
+import { ValidationError } from './errors.js';
+import { to_sql_timestamp } from './rows.js';
+
+// Translation of search_advanced filters into SQL conditions on
+// entities aliased as "e". Values are always bound as named
+// parameters, never spliced into the SQL.
+
+export interface FilterSql {
+	conditions: string[];
+	params: Record<string, string>;
+}
+
+export function build_entity_filter(filter: EntityFilter): FilterSql {
+	const conditions: string[] = [];
+	const params: Record<string, string> = {};
+
+	if (filter.entityType !== undefined) {
+		params.entity_types = JSON.stringify(to_list(filter.entityType));
+		conditions.push(
+			'e.entity_type IN (SELECT value FROM json_each(@entity_types))',
+		);
+	}
+
+	if (filter.namePattern !== undefined) {
+		params.name_pattern = escape_like(filter.namePattern)
+			.replace(/\*/g, '%')
+			.replace(/\?/g, '_');
+		conditions.push("e.name LIKE @name_pattern ESCAPE '\\'");
+	}
+
+	const observation_match = (param: string) =>
+		`EXISTS (
+      SELECT 1 FROM observations o
+      WHERE o.namespace = e.namespace
+        AND o.entity_name = e.name
+        AND o.content LIKE @${param} ESCAPE '\\'
+    )`;
+	to_list(filter.observations?.contains).forEach((text, i) => {
+		params[`contains_${i}`] = `%${escape_like(text)}%`;
+		conditions.push(observation_match(`contains_${i}`));
+	});
+	to_list(filter.observations?.notContains).forEach((text, i) => {
+		params[`not_contains_${i}`] = `%${escape_like(text)}%`;
+		conditions.push(`NOT ${observation_match(`not_contains_${i}`)}`);
+	});
+
+	if (filter.hasRelation) {
+		conditions.push(
+			relation_condition(filter.hasRelation, 'has', params),
+		);
+	}
+	if (filter.lacksRelation) {
+		conditions.push(
+			`NOT ${relation_condition(filter.lacksRelation, 'lacks', params)}`,
+		);
+	}
+
+	if (filter.createdAfter !== undefined) {
+		params.created_after = to_sql_timestamp(filter.createdAfter);
+		conditions.push('e.created_at > @created_after');
+	}
+	if (filter.createdBefore !== undefined) {
+		params.created_before = to_sql_timestamp(filter.createdBefore);
+		conditions.push('e.created_at < @created_before');
+	}
+
+	return { conditions, params };
+}
+
+function to_list(value: string | string[] | undefined): string[] {
+	if (value === undefined) return [];
+	return Array.isArray(value) ? value : [value];
+}
+
+export function escape_like(value: string): string {
+	return value.replace(/[\\%_]/g, '\\$&');
+}
+
+function relation_condition(
+	filter: RelationFilter,
+	prefix: string,
+	params: Record<string, string>,
+): string {
+	if (filter.target !== undefined && filter.source !== undefined) {
+		throw new ValidationError(
+			'A relation filter takes either target or source, not both',
+		);
+	}
+	const other = filter.target ?? filter.source;
+	const direction =
+		filter.direction ??
+		(filter.target !== undefined
+			? 'out'
+			: filter.source !== undefined
+				? 'in'
+				: 'both');
+
+	if (other !== undefined) params[`${prefix}_other`] = other;
+	const side = (own: string, far: string) =>
+		other === undefined
+			? `r.${own} = e.name`
+			: `(r.${own} = e.name AND r.${far} = @${prefix}_other)`;
+
+	const sides: string[] = [];
+	if (direction !== 'in') sides.push(side('source', 'target'));
+	if (direction !== 'out') sides.push(side('target', 'source'));
+
+	let type_condition = '';
+	if (filter.type !== undefined) {
+		params[`${prefix}_type`] = filter.type;
+		type_condition = ` AND r.relation_type = @${prefix}_type`;
+	}
+
+	return `EXISTS (
+      SELECT 1 FROM relations r
+      WHERE r.namespace = e.namespace
+        AND (${sides.join(' OR ')})${type_condition}
+    )`;
+}
@@ -0,0 +1,242 @@
+import Database from 'better-sqlite3';
+import { EntityVersion, Relation } from '../types/index.js';
+import {
+	RELATION_COLUMNS,
+	RelationRow,
+	to_iso_timestamp,
+	to_relation,
+} from './rows.js';
+
+// State of an entity captured in entity_versions. Relations are the
+// entity's outgoing relations without their creation time.
+export interface EntitySnapshot {
+	entityType: string | null;
+	observations: string[];
+	relations: Relation[];
+	deleted: boolean;
+}
+
+interface VersionRow {
+	version: number;
+	operation: string;
+	entity_type: string | null;
+	observations: string;
+	relations: string;
+	deleted: number;
+	created_at: string;
+}
+
+// Rebuild a relation with a fixed key order and without unset or
+// time-dependent fields, so snapshots compare by value
+function normalize_relation(
+	from: string,
+	relation: Relation,
+): Relation {
+	return {
+		from,
+		to: relation.to,
+		relationType: relation.relationType,
+		...(relation.description != null && {
+			description: relation.description,
+		}),
+		...(relation.strength != null && { strength: relation.strength }),
+		...(relation.tags != null && { tags: relation.tags }),
+		...(relation.properties != null && {
+			properties: relation.properties,
+		}),
+	};
+}
+
+function relation_key(relation: Relation): string {
+	return JSON.stringify(relation);
+}
+
+function to_snapshot(name: string, row: VersionRow): EntitySnapshot {
+	return {
+		entityType: row.entity_type,
+		observations: JSON.parse(row.observations),
+		relations: (JSON.parse(row.relations) as Relation[]).map(
+			(relation) => normalize_relation(name, relation),
+		),
+		deleted: row.deleted === 1,
+	};
+}
+
+function same_snapshot(a: EntitySnapshot, b: EntitySnapshot) {
+	return (
+		a.deleted === b.deleted &&
+		a.entityType === b.entityType &&
+		JSON.stringify(a.observations) ===
+			JSON.stringify(b.observations) &&
+		JSON.stringify(a.relations) === JSON.stringify(b.relations)
+	);
+}
+
+export function snapshot_entity(
+	db: Database.Database,
+	namespace: string,
+	name: string,
+): EntitySnapshot {
+	const entity = db
+		.prepare(
+			'SELECT entity_type FROM entities WHERE namespace = ? AND name = ?',
+		)
+		.get(namespace, name) as { entity_type: string } | undefined;
+
+	if (!entity) {
+		return {
+			entityType: null,
+			observations: [],
+			relations: [],
+			deleted: true,
+		};
+	}
+
+	const observations = db
+		.prepare(
+			'SELECT content FROM observations WHERE namespace = ? AND entity_name = ? ORDER BY id',
+		)
+		.all(namespace, name) as Array<{ content: string }>;
+	const relations = db
+		.prepare(
+			`SELECT ${RELATION_COLUMNS} FROM relations
+       WHERE namespace = ? AND source = ?
+       ORDER BY target, relation_type`,
+		)
+		.all(namespace, name) as RelationRow[];
+
+	return {
+		entityType: entity.entity_type,
+		observations: observations.map((row) => row.content),
+		relations: relations.map((row) =>
+			normalize_relation(name, to_relation(row)),
+		),
+		deleted: false,
+	};
+}
+
+function get_latest_version(
+	db: Database.Database,
+	namespace: string,
+	name: string,
+) {
+	return db
+		.prepare(
+			`SELECT * FROM entity_versions
+       WHERE namespace = ? AND entity_name = ?
+       ORDER BY version DESC
+       LIMIT 1`,
+		)
+		.get(namespace, name) as VersionRow | undefined;
+}
+
+// Record a new version for each entity whose state differs from its
+// latest recorded version. Call inside the transaction that made the
+// change. Returns the new version number of each recorded entity.
+export function record_versions(
+	db: Database.Database,
+	namespace: string,
+	names: Iterable<string>,
+	operation: string,
+): Map<string, number> {
+	const recorded = new Map<string, number>();
+	const insert = db.prepare(
+		`INSERT INTO entity_versions
+     (namespace, entity_name, version, operation, entity_type, observations, relations, deleted)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+	);
+
+	for (const name of new Set(names)) {
+		const snapshot = snapshot_entity(db, namespace, name);
+		const latest = get_latest_version(db, namespace, name);
+
+		if (latest) {
+			if (same_snapshot(snapshot, to_snapshot(name, latest)))
+				continue;
+		} else if (snapshot.deleted) {
+			continue;
+		}
+
+		const version = (latest?.version ?? 0) + 1;
+		insert.run(
+			namespace,
+			name,
+			version,
+			operation,
+			snapshot.entityType,
+			JSON.stringify(snapshot.observations),
+			JSON.stringify(
+				snapshot.relations.map(({ from, ...relation }) => relation),
+			),
+			snapshot.deleted ? 1 : 0,
+		);
+		recorded.set(name, version);
+	}
+	return recorded;
+}
+
+export function get_version_snapshot(
+	db: Database.Database,
+	namespace: string,
+	name: string,
+	version: number,
+): EntitySnapshot | undefined {
+	const row = db
+		.prepare(
+			'SELECT * FROM entity_versions WHERE namespace = ? AND entity_name = ? AND version = ?',
+		)
+		.get(namespace, name, version) as VersionRow | undefined;
+	return row && to_snapshot(name, row);
+}
+
+// List every recorded version of an entity, oldest first, with the
+// changes relative to the version before it. A relation whose
+// properties changed appears as removed (old) and added (new).
+export function get_versions(
+	db: Database.Database,
+	namespace: string,
+	name: string,
+): EntityVersion[] {
+	const rows = db
+		.prepare(
+			'SELECT * FROM entity_versions WHERE namespace = ? AND entity_name = ? ORDER BY version',
+		)
+		.all(namespace, name) as VersionRow[];
+
+	let previous: EntitySnapshot = {
+		entityType: null,
+		observations: [],
+		relations: [],
+		deleted: true,
+	};
+	return rows.map((row) => {
+		const snapshot = to_snapshot(name, row);
+		const before_obs = new Set(previous.observations);
+		const after_obs = new Set(snapshot.observations);
+		const before_rel = new Set(previous.relations.map(relation_key));
+		const after_rel = new Set(snapshot.relations.map(relation_key));
+
+		const version: EntityVersion = {
+			version: row.version,
+			operation: row.operation,
+			changedAt: to_iso_timestamp(row.created_at),
+			entityType: snapshot.entityType,
+			deleted: snapshot.deleted,
+			observationCount: snapshot.observations.length,
+			addedObservations: snapshot.observations.filter(
+				(obs) => !before_obs.has(obs),
+			),
+			removedObservations: previous.observations.filter(
+				(obs) => !after_obs.has(obs),
+			),
+			addedRelations: snapshot.relations.filter(
+				(relation) => !before_rel.has(relation_key(relation)),
+			),
+			removedRelations: previous.relations.filter(
+				(relation) => !after_rel.has(relation_key(relation)),
+			),
+		};
+		previous = snapshot;
+		return version;
+	});
+}
@@ -0,0 +1,322 @@
+import Database from 'better-sqlite3';
+import {
+	IntegrityIssues,
+	IntegrityRepairCounts,
+	IntegrityReport,
+} from '../types/index.js';
+
+// Entity type given to entities whose type is blank
+export const REPAIRED_ENTITY_TYPE = 'unknown';
+
+// True for values that are empty or only whitespace
+const blank = (column: string) =>
+	`trim(${column}, ' ' || char(9, 10, 11, 12, 13)) = ''`;
+
+const exists = (column: string) => `EXISTS (
+  SELECT 1 FROM entities e
+  WHERE e.namespace = t.namespace AND e.name = t.${column}
+)`;
+
+// Conditions on relations t and observations t
+const DANGLING_RELATION = `(NOT ${exists('source')} OR NOT ${exists('target')})`;
+const ORPHAN_OBSERVATION = `NOT ${exists('entity_name')}`;
+const DUPLICATE_OBSERVATION = `t.id NOT IN (
+  SELECT MIN(id) FROM observations
+  GROUP BY namespace, entity_name, content
+)`;
+
+// Entities touched by a repair in each namespace: names whose own
+// state changed, and names that only lost incoming relations
+export type RepairedEntities = Map<
+	string,
+	{ names: Set<string>; related: Set<string> }
+>;
+
+function scope_params(namespace: string, all: boolean) {
+	return { namespace, all: all ? 1 : 0 };
+}
+
+const scope = (alias: string) =>
+	`(@all = 1 OR ${alias}.namespace = @namespace)`;
+
+// Run the checks for one namespace, or every namespace when all is
+// set, in which case listed issues carry their namespace
+export function find_integrity_issues(
+	db: Database.Database,
+	namespace: string,
+	all: boolean,
+	limit: number,
+): IntegrityReport {
+	const params = { ...scope_params(namespace, all), limit };
+
+	// Rows of table t matching condition: how many, and the first
+	// limit of them by select's ORDER BY
+	const issues = <T extends { namespace?: string }>(
+		table: string,
+		condition: string,
+		columns: string,
+		order: string,
+	): IntegrityIssues<T> => {
+		const where = `FROM ${table} t WHERE ${scope('t')} AND ${condition}`;
+		const { count } = db
+			.prepare(`SELECT COUNT(*) AS count ${where}`)
+			.get(params) as { count: number };
+		const rows = db
+			.prepare(
+				`SELECT t.namespace, ${columns} ${where} ORDER BY ${order} LIMIT @limit`,
+			)
+			.all(params) as T[];
+		return {
+			count,
+			items: rows.map(({ namespace: ns, ...row }) => ({
+				...row,
+				...(all && { namespace: ns }),
+			})) as T[],
+		};
+	};
+
+	const relation_columns = `t.id, t.source AS "from", t.target AS "to",
+    t.relation_type AS relationType`;
+	const entity_columns = 't.name, t.entity_type AS entityType';
+
+	const dangling = issues<
+		IntegrityReport['danglingRelations']['items'][number] & {
+			has_from: number;
+			has_to: number;
+		}
+	>(
+		'relations',
+		DANGLING_RELATION,
+		`${relation_columns}, ${exists('source')} AS has_from,
+    ${exists('target')} AS has_to`,
+		't.id',
+	);
+
+	const duplicates = db
+		.prepare(
+			`SELECT t.namespace, t.entity_name AS entityName, t.content,
+         json_group_array(t.id) AS ids, COUNT(*) AS copies
+       FROM (
+         SELECT * FROM observations o
+         WHERE ${scope('o')} ORDER BY o.id
+       ) t
+       GROUP BY t.namespace, t.entity_name, t.content
+       HAVING COUNT(*) > 1
+       ORDER BY t.entity_name, t.namespace, MIN(t.id)`,
+		)
+		.all(params) as Array<{
+		namespace: string;
+		entityName: string;
+		content: string;
+		ids: string;
+		copies: number;
+	}>;
+
+	const integrity_errors = (
+		db.pragma('integrity_check') as Array<{
+			integrity_check: string;
+		}>
+	)
+		.map((row) => row.integrity_check)
+		.filter((message) => message !== 'ok');
+	const foreign_key_violations = (
+		db.pragma('foreign_key_check') as Array<{
+			table: string;
+			rowid: number;
+			parent: string;
+		}>
+	).map(({ table, rowid, parent }) => ({ table, rowid, parent }));
+
+	const report: IntegrityReport = {
+		namespace,
+		ok: false,
+		integrityErrors: integrity_errors,
+		foreignKeyViolations: foreign_key_violations,
+		danglingRelations: {
+			count: dangling.count,
+			items: dangling.items.map(({ has_from, has_to, ...row }) => ({
+				...row,
+				missing: [
+					...(has_from ? [] : ['from' as const]),
+					...(has_to ? [] : ['to' as const]),
+				],
+			})),
+		},
+		orphanObservations: issues(
+			'observations',
+			ORPHAN_OBSERVATION,
+			't.id, t.entity_name AS entityName, t.content',
+			't.id',
+		),
+		duplicateObservations: {
+			count: duplicates.reduce((sum, row) => sum + row.copies - 1, 0),
+			groups: duplicates.length,
+			items: duplicates
+				.slice(0, limit)
+				.map(({ namespace: ns, ids, copies, ...row }) => ({
+					...row,
+					ids: JSON.parse(ids),
+					...(all && { namespace: ns }),
+				})),
+		},
+		blankNames: issues(
+			'entities',
+			blank('t.name'),
+			entity_columns,
+			't.namespace, t.entity_type',
+		),
+		blankEntityTypes: issues(
+			'entities',
+			blank('t.entity_type'),
+			entity_columns,
+			't.name, t.namespace',
+		),
+		blankRelationTypes: issues(
+			'relations',
+			blank('t.relation_type'),
+			relation_columns,
+			't.id',
+		),
+	};
+
+	report.ok =
+		report.integrityErrors.length === 0 &&
+		report.foreignKeyViolations.length === 0 &&
+		[
+			report.danglingRelations,
+			report.orphanObservations,
+			report.duplicateObservations,
+			report.blankNames,
+			report.blankEntityTypes,
+			report.blankRelationTypes,
+		].every((found) => found.count === 0);
+	return report;
+}
+
+// Fix the issues find_integrity_issues reports, other than those from
+// integrity_check: delete dangling relations, orphan and duplicate
+// observations, relations with a blank type, and entities with a
+// blank name (with their observations and relations); give entities
+// with a blank type REPAIRED_ENTITY_TYPE. Call inside a transaction.
+export function repair_integrity_issues(
+	db: Database.Database,
+	namespace: string,
+	all: boolean,
+): { repaired: IntegrityRepairCounts; entities: RepairedEntities } {
+	const params = scope_params(namespace, all);
+	const entities: RepairedEntities = new Map();
+	const touch = (ns: string, names: string[], related: string[]) => {
+		const touched = entities.get(ns) ?? {
+			names: new Set<string>(),
+			related: new Set<string>(),
+		};
+		for (const name of names) touched.names.add(name);
+		for (const name of related) touched.related.add(name);
+		entities.set(ns, touched);
+	};
+
+	// Delete the relations matching condition, recording their
+	// sources as changed and their targets as related
+	const delete_relations = (
+		condition: string,
+		extra: Record<string, string> = {},
+	) => {
+		const where = `FROM relations t WHERE ${scope('t')} AND ${condition}`;
+		const rows = db
+			.prepare(`SELECT t.namespace, t.source, t.target ${where}`)
+			.all({ ...params, ...extra }) as Array<{
+			namespace: string;
+			source: string;
+			target: string;
+		}>;
+		for (const row of rows) {
+			touch(row.namespace, [row.source], [row.target]);
+		}
+		return db
+			.prepare(
+				`DELETE FROM relations WHERE id IN (SELECT t.id ${where})`,
+			)
+			.run({ ...params, ...extra }).changes;
+	};
+
+	const delete_observations = (
+		condition: string,
+		extra: Record<string, string> = {},
+	) => {
+		const where = `FROM observations t WHERE ${scope('t')} AND ${condition}`;
+		const rows = db
+			.prepare(`SELECT DISTINCT t.namespace, t.entity_name ${where}`)
+			.all({ ...params, ...extra }) as Array<{
+			namespace: string;
+			entity_name: string;
+		}>;
+		for (const row of rows) {
+			touch(row.namespace, [row.entity_name], []);
+		}
+		return db
+			.prepare(
+				`DELETE FROM observations WHERE id IN (SELECT t.id ${where})`,
+			)
+			.run({ ...params, ...extra }).changes;
+	};
+
+	const blank_relation_types = delete_relations(
+		blank('t.relation_type'),
+	);
+
+	const blank_named = db
+		.prepare(
+			`SELECT t.namespace, t.name FROM entities t
+       WHERE ${scope('t')} AND ${blank('t.name')}`,
+		)
+		.all(params) as Array<{ namespace: string; name: string }>;
+	const delete_entity = db.prepare(
+		'DELETE FROM entities WHERE namespace = ? AND name = ?',
+	);
+	for (const { namespace: ns, name } of blank_named) {
+		const entity = { entity_namespace: ns, entity_name: name };
+		delete_relations(
+			`t.namespace = @entity_namespace
+        AND (t.source = @entity_name OR t.target = @entity_name)`,
+			entity,
+		);
+		delete_observations(
+			't.namespace = @entity_namespace AND t.entity_name = @entity_name',
+			entity,
+		);
+		delete_entity.run(ns, name);
+		touch(ns, [name], []);
+	}
+
+	const dangling_relations = delete_relations(DANGLING_RELATION);
+	const orphan_observations = delete_observations(ORPHAN_OBSERVATION);
+	const duplicate_observations = delete_observations(
+		DUPLICATE_OBSERVATION,
+	);
+
+	const blank_typed = db
+		.prepare(
+			`SELECT t.namespace, t.name FROM entities t
+       WHERE ${scope('t')} AND ${blank('t.entity_type')}`,
+		)
+		.all(params) as Array<{ namespace: string; name: string }>;
+	const set_type = db.prepare(
+		'UPDATE entities SET entity_type = ? WHERE namespace = ? AND name = ?',
+	);
+	for (const { namespace: ns, name } of blank_typed) {
+		set_type.run(REPAIRED_ENTITY_TYPE, ns, name);
+		touch(ns, [name], []);
+	}
+
+	return {
+		repaired: {
+			danglingRelations: dangling_relations,
+			orphanObservations: orphan_observations,
+			duplicateObservations: duplicate_observations,
+			blankNames: blank_named.length,
+			blankEntityTypes: blank_typed.length,
+			blankRelationTypes: blank_relation_types,
+		},
+		entities,
+	};
+}
@@ -0,0 +1,42 @@
+import { Migration } from './migrator.js';
+
+// Tables and indexes as created before versioned migrations existed.
+// IF NOT EXISTS lets databases from those versions adopt this
+// migration without changes.
+export const migration: Migration = {
+	version: 1,
+	name: 'initial_schema',
+	up: (db) => {
+		db.exec(`
+			CREATE TABLE IF NOT EXISTS entities (
+				name TEXT PRIMARY KEY,
+				entity_type TEXT NOT NULL,
+				created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+			);
+
+			CREATE TABLE IF NOT EXISTS observations (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				entity_name TEXT NOT NULL,
+				content TEXT NOT NULL,
+				created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+				FOREIGN KEY (entity_name) REFERENCES entities(name)
+			);
+
+			CREATE TABLE IF NOT EXISTS relations (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				source TEXT NOT NULL,
+				target TEXT NOT NULL,
+				relation_type TEXT NOT NULL,
+				created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+				FOREIGN KEY (source) REFERENCES entities(name),
+				FOREIGN KEY (target) REFERENCES entities(name),
+				UNIQUE(source, target, relation_type)
+			);
+
+			CREATE INDEX IF NOT EXISTS idx_entities_name ON entities(name);
+			CREATE INDEX IF NOT EXISTS idx_observations_entity ON observations(entity_name);
+			CREATE INDEX IF NOT EXISTS idx_relations_source ON relations(source);
+			CREATE INDEX IF NOT EXISTS idx_relations_target ON relations(target);
+		`);
+	},
+};
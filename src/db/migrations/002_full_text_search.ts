@@ -0,0 +1,90 @@
+import { Migration } from './migrator.js';
+
+// Full-text index over entity names, types and observation content.
+// Observation rows use the observation id as rowid; every entity also
+// gets a row with empty content (negative rowid) so that entities are
+// found by name or type even without observations. Triggers keep the
+// index in sync with the base tables.
+export const migration: Migration = {
+	version: 2,
+	name: 'full_text_search',
+	up: (db) => {
+		db.exec(`
+			DROP TABLE IF EXISTS memory_fts;
+
+			CREATE VIRTUAL TABLE memory_fts USING fts5(
+				name,
+				entity_type,
+				content,
+				tokenize = 'unicode61 remove_diacritics 2'
+			);
+
+			INSERT INTO memory_fts (rowid, name, entity_type, content)
+			SELECT -ROW_NUMBER() OVER (ORDER BY rowid), name, entity_type, ''
+			FROM entities;
+
+			INSERT INTO memory_fts (rowid, name, entity_type, content)
+			SELECT o.id, e.name, e.entity_type, o.content
+			FROM observations o
+			JOIN entities e ON e.name = o.entity_name;
+
+			DROP TRIGGER IF EXISTS entities_fts_insert;
+			CREATE TRIGGER entities_fts_insert
+			AFTER INSERT ON entities
+			BEGIN
+				INSERT INTO memory_fts (rowid, name, entity_type, content)
+				VALUES (
+					(SELECT IFNULL(MIN(rowid), 0) - 1 FROM memory_fts WHERE rowid < 0),
+					new.name,
+					new.entity_type,
+					''
+				);
+			END;
+
+			DROP TRIGGER IF EXISTS entities_fts_update;
+			CREATE TRIGGER entities_fts_update
+			AFTER UPDATE OF name, entity_type ON entities
+			BEGIN
+				UPDATE memory_fts SET name = new.name, entity_type = new.entity_type
+				WHERE rowid < 0 AND name = old.name;
+				UPDATE memory_fts SET name = new.name, entity_type = new.entity_type
+				WHERE rowid IN (
+					SELECT id FROM observations WHERE entity_name = old.name
+				);
+			END;
+
+			DROP TRIGGER IF EXISTS entities_fts_delete;
+			CREATE TRIGGER entities_fts_delete
+			AFTER DELETE ON entities
+			BEGIN
+				DELETE FROM memory_fts WHERE rowid < 0 AND name = old.name;
+			END;
+
+			DROP TRIGGER IF EXISTS observations_fts_insert;
+			CREATE TRIGGER observations_fts_insert
+			AFTER INSERT ON observations
+			BEGIN
+				INSERT INTO memory_fts (rowid, name, entity_type, content)
+				SELECT new.id, name, entity_type, new.content
+				FROM entities WHERE name = new.entity_name;
+			END;
+
+			DROP TRIGGER IF EXISTS observations_fts_update;
+			CREATE TRIGGER observations_fts_update
+			AFTER UPDATE ON observations
+			BEGIN
+				DELETE FROM memory_fts WHERE rowid = old.id;
+				INSERT INTO memory_fts (rowid, name, entity_type, content)
+				SELECT new.id, name, entity_type, new.content
+				FROM entities WHERE name = new.entity_name;
+			END;
+
+			DROP TRIGGER IF EXISTS observations_fts_delete;
+			CREATE TRIGGER observations_fts_delete
+			AFTER DELETE ON observations
+			BEGIN
+				DELETE FROM memory_fts WHERE rowid = old.id;
+			END;
+		`);
+	},
+};
@@ -0,0 +1,13 @@
+import { Migration } from './migrator.js';
+
+// Track when an observation was last edited. NULL means the
+// observation has not changed since it was created.
+export const migration: Migration = {
+	version: 3,
+	name: 'observation_updated_at',
+	up: (db) => {
+		db.exec(`
+			ALTER TABLE observations ADD COLUMN updated_at DATETIME;
+		`);
+	},
+};
@@ -0,0 +1,50 @@
+import { Migration } from './migrator.js';
+
+// Optional context on relations: a free-text description, a strength
+// between 0 and 1, tags (JSON array) and a JSON properties object.
+// Descriptions get their own full-text index. It mirrors the columns
+// of memory_fts, leaving name and entity_type empty, so the same
+// MATCH expression (including column filters) is valid on both.
+export const migration: Migration = {
+	version: 4,
+	name: 'relation_properties',
+	up: (db) => {
+		db.exec(`
+			ALTER TABLE relations ADD COLUMN description TEXT;
+			ALTER TABLE relations ADD COLUMN strength REAL
+				CHECK (strength IS NULL OR (strength >= 0 AND strength <= 1));
+			ALTER TABLE relations ADD COLUMN tags TEXT;
+			ALTER TABLE relations ADD COLUMN properties TEXT;
+
+			CREATE VIRTUAL TABLE relations_fts USING fts5(
+				name,
+				entity_type,
+				content,
+				tokenize = 'unicode61 remove_diacritics 2'
+			);
+
+			CREATE TRIGGER relations_fts_insert
+			AFTER INSERT ON relations
+			WHEN new.description IS NOT NULL
+			BEGIN
+				INSERT INTO relations_fts (rowid, name, entity_type, content)
+				VALUES (new.id, '', '', new.description);
+			END;
+
+			CREATE TRIGGER relations_fts_update
+			AFTER UPDATE OF description ON relations
+			BEGIN
+				DELETE FROM relations_fts WHERE rowid = old.id;
+				INSERT INTO relations_fts (rowid, name, entity_type, content)
+				SELECT new.id, '', '', new.description
+				WHERE new.description IS NOT NULL;
+			END;
+
+			CREATE TRIGGER relations_fts_delete
+			AFTER DELETE ON relations
+			BEGIN
+				DELETE FROM relations_fts WHERE rowid = old.id;
+			END;
+		`);
+	},
+};
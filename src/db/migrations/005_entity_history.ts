@@ -0,0 +1,58 @@
+import { Migration } from './migrator.js';
+
+// Versioned snapshots of each entity: its type, observations and
+// outgoing relations after every change. Rows are kept after the
+// entity is deleted so that it can be restored. Existing entities get
+// a baseline version 1 from their current state.
+export const migration: Migration = {
+	version: 5,
+	name: 'entity_history',
+	up: (db) => {
+		db.exec(`
+			CREATE TABLE entity_versions (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				entity_name TEXT NOT NULL,
+				version INTEGER NOT NULL,
+				operation TEXT NOT NULL,
+				entity_type TEXT,
+				observations TEXT NOT NULL DEFAULT '[]',
+				relations TEXT NOT NULL DEFAULT '[]',
+				deleted INTEGER NOT NULL DEFAULT 0,
+				created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+				UNIQUE(entity_name, version)
+			);
+
+			INSERT INTO entity_versions
+				(entity_name, version, operation, entity_type, observations, relations)
+			SELECT
+				e.name,
+				1,
+				'baseline',
+				e.entity_type,
+				(
+					SELECT json_group_array(content)
+					FROM (
+						SELECT content FROM observations
+						WHERE entity_name = e.name
+						ORDER BY id
+					)
+				),
+				(
+					SELECT json_group_array(json_object(
+						'to', target,
+						'relationType', relation_type,
+						'description', description,
+						'strength', strength,
+						'tags', json(tags),
+						'properties', json(properties)
+					))
+					FROM (
+						SELECT * FROM relations
+						WHERE source = e.name
+						ORDER BY target, relation_type
+					)
+				)
+			FROM entities e;
+		`);
+	},
+};
@@ -0,0 +1,224 @@
+import { Migration } from './migrator.js';
+
+// Scope entities, observations, relations and history to a namespace,
+// making (namespace, name) the entity key. Changing a primary key
+// means rebuilding the tables: each one is recreated under a new name,
+// filled from the old one, and swapped in. Existing data moves to the
+// "default" namespace. The full-text indexes and their triggers are
+// rebuilt to carry the namespace.
+export const migration: Migration = {
+	version: 6,
+	name: 'namespaces',
+	foreign_keys: false,
+	up: (db) => {
+		db.exec(`
+			CREATE TABLE entities_new (
+				namespace TEXT NOT NULL DEFAULT 'default',
+				name TEXT NOT NULL,
+				entity_type TEXT NOT NULL,
+				created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+				PRIMARY KEY (namespace, name)
+			);
+			INSERT INTO entities_new (namespace, name, entity_type, created_at)
+			SELECT 'default', name, entity_type, created_at FROM entities;
+
+			CREATE TABLE observations_new (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				namespace TEXT NOT NULL DEFAULT 'default',
+				entity_name TEXT NOT NULL,
+				content TEXT NOT NULL,
+				created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+				updated_at DATETIME,
+				FOREIGN KEY (namespace, entity_name)
+					REFERENCES entities(namespace, name)
+			);
+			INSERT INTO observations_new
+				(id, namespace, entity_name, content, created_at, updated_at)
+			SELECT id, 'default', entity_name, content, created_at, updated_at
+			FROM observations;
+
+			CREATE TABLE relations_new (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				namespace TEXT NOT NULL DEFAULT 'default',
+				source TEXT NOT NULL,
+				target TEXT NOT NULL,
+				relation_type TEXT NOT NULL,
+				created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+				description TEXT,
+				strength REAL
+					CHECK (strength IS NULL OR (strength >= 0 AND strength <= 1)),
+				tags TEXT,
+				properties TEXT,
+				FOREIGN KEY (namespace, source)
+					REFERENCES entities(namespace, name),
+				FOREIGN KEY (namespace, target)
+					REFERENCES entities(namespace, name),
+				UNIQUE(namespace, source, target, relation_type)
+			);
+			INSERT INTO relations_new
+				(id, namespace, source, target, relation_type, created_at,
+				 description, strength, tags, properties)
+			SELECT id, 'default', source, target, relation_type, created_at,
+				description, strength, tags, properties
+			FROM relations;
+
+			CREATE TABLE entity_versions_new (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				namespace TEXT NOT NULL DEFAULT 'default',
+				entity_name TEXT NOT NULL,
+				version INTEGER NOT NULL,
+				operation TEXT NOT NULL,
+				entity_type TEXT,
+				observations TEXT NOT NULL DEFAULT '[]',
+				relations TEXT NOT NULL DEFAULT '[]',
+				deleted INTEGER NOT NULL DEFAULT 0,
+				created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+				UNIQUE(namespace, entity_name, version)
+			);
+			INSERT INTO entity_versions_new
+				(id, namespace, entity_name, version, operation, entity_type,
+				 observations, relations, deleted, created_at)
+			SELECT id, 'default', entity_name, version, operation, entity_type,
+				observations, relations, deleted, created_at
+			FROM entity_versions;
+
+			-- Keep AUTOINCREMENT counters so ids of deleted rows are not
+			-- reused
+			UPDATE sqlite_sequence
+			SET seq = MAX(seq, IFNULL((
+				SELECT seq FROM sqlite_sequence old
+				WHERE old.name = substr(sqlite_sequence.name, 1,
+					length(sqlite_sequence.name) - 4)
+			), 0))
+			WHERE name IN ('observations_new', 'relations_new', 'entity_versions_new');
+
+			DROP TABLE observations;
+			DROP TABLE relations;
+			DROP TABLE entities;
+			DROP TABLE entity_versions;
+			DROP TABLE memory_fts;
+			DROP TABLE relations_fts;
+
+			ALTER TABLE entities_new RENAME TO entities;
+			ALTER TABLE observations_new RENAME TO observations;
+			ALTER TABLE relations_new RENAME TO relations;
+			ALTER TABLE entity_versions_new RENAME TO entity_versions;
+
+			CREATE INDEX idx_observations_entity
+				ON observations(namespace, entity_name);
+			CREATE INDEX idx_relations_source ON relations(namespace, source);
+			CREATE INDEX idx_relations_target ON relations(namespace, target);
+
+			CREATE VIRTUAL TABLE memory_fts USING fts5(
+				name,
+				entity_type,
+				content,
+				namespace UNINDEXED,
+				tokenize = 'unicode61 remove_diacritics 2'
+			);
+
+			INSERT INTO memory_fts (rowid, name, entity_type, content, namespace)
+			SELECT -ROW_NUMBER() OVER (ORDER BY rowid), name, entity_type, '', namespace
+			FROM entities;
+
+			INSERT INTO memory_fts (rowid, name, entity_type, content, namespace)
+			SELECT o.id, e.name, e.entity_type, o.content, e.namespace
+			FROM observations o
+			JOIN entities e
+				ON e.namespace = o.namespace AND e.name = o.entity_name;
+
+			CREATE TRIGGER entities_fts_insert
+			AFTER INSERT ON entities
+			BEGIN
+				INSERT INTO memory_fts (rowid, name, entity_type, content, namespace)
+				VALUES (
+					(SELECT IFNULL(MIN(rowid), 0) - 1 FROM memory_fts WHERE rowid < 0),
+					new.name,
+					new.entity_type,
+					'',
+					new.namespace
+				);
+			END;
+
+			CREATE TRIGGER entities_fts_update
+			AFTER UPDATE OF name, entity_type ON entities
+			BEGIN
+				UPDATE memory_fts SET name = new.name, entity_type = new.entity_type
+				WHERE rowid < 0 AND namespace = old.namespace AND name = old.name;
+				UPDATE memory_fts SET name = new.name, entity_type = new.entity_type
+				WHERE rowid IN (
+					SELECT id FROM observations
+					WHERE namespace = old.namespace AND entity_name = old.name
+				);
+			END;
+
+			CREATE TRIGGER entities_fts_delete
+			AFTER DELETE ON entities
+			BEGIN
+				DELETE FROM memory_fts
+				WHERE rowid < 0 AND namespace = old.namespace AND name = old.name;
+			END;
+
+			CREATE TRIGGER observations_fts_insert
+			AFTER INSERT ON observations
+			BEGIN
+				INSERT INTO memory_fts (rowid, name, entity_type, content, namespace)
+				SELECT new.id, name, entity_type, new.content, namespace
+				FROM entities
+				WHERE namespace = new.namespace AND name = new.entity_name;
+			END;
+
+			CREATE TRIGGER observations_fts_update
+			AFTER UPDATE ON observations
+			BEGIN
+				DELETE FROM memory_fts WHERE rowid = old.id;
+				INSERT INTO memory_fts (rowid, name, entity_type, content, namespace)
+				SELECT new.id, name, entity_type, new.content, namespace
+				FROM entities
+				WHERE namespace = new.namespace AND name = new.entity_name;
+			END;
+
+			CREATE TRIGGER observations_fts_delete
+			AFTER DELETE ON observations
+			BEGIN
+				DELETE FROM memory_fts WHERE rowid = old.id;
+			END;
+
+			CREATE VIRTUAL TABLE relations_fts USING fts5(
+				name,
+				entity_type,
+				content,
+				namespace UNINDEXED,
+				tokenize = 'unicode61 remove_diacritics 2'
+			);
+
+			INSERT INTO relations_fts (rowid, name, entity_type, content, namespace)
+			SELECT id, '', '', description, namespace
+			FROM relations
+			WHERE description IS NOT NULL;
+
+			CREATE TRIGGER relations_fts_insert
+			AFTER INSERT ON relations
+			WHEN new.description IS NOT NULL
+			BEGIN
+				INSERT INTO relations_fts (rowid, name, entity_type, content, namespace)
+				VALUES (new.id, '', '', new.description, new.namespace);
+			END;
+
+			CREATE TRIGGER relations_fts_update
+			AFTER UPDATE OF description ON relations
+			BEGIN
+				DELETE FROM relations_fts WHERE rowid = old.id;
+				INSERT INTO relations_fts (rowid, name, entity_type, content, namespace)
+				SELECT new.id, '', '', new.description, new.namespace
+				WHERE new.description IS NOT NULL;
+			END;
+
+			CREATE TRIGGER relations_fts_delete
+			AFTER DELETE ON relations
+			BEGIN
+				DELETE FROM relations_fts WHERE rowid = old.id;
+			END;
+		`);
+	},
+};
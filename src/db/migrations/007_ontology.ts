@@ -0,0 +1,35 @@
+import { Migration } from './migrator.js';
+
+// Add the ontology: entity types and relation types registered per
+// namespace, which create_entities and create_relations can check
+// writes against. Existing entities and relations are left as they
+// are, whatever their types.
+export const migration: Migration = {
+	version: 7,
+	name: 'ontology',
+	up: (db) => {
+		db.exec(`
+			CREATE TABLE entity_types (
+				namespace TEXT NOT NULL DEFAULT 'default',
+				name TEXT NOT NULL,
+				description TEXT,
+				created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+				PRIMARY KEY (namespace, name)
+			);
+
+			-- source_types and target_types are JSON arrays of entity
+			-- types, or NULL for any type
+			CREATE TABLE relation_types (
+				namespace TEXT NOT NULL DEFAULT 'default',
+				name TEXT NOT NULL,
+				description TEXT,
+				source_types TEXT,
+				target_types TEXT,
+				symmetric INTEGER NOT NULL DEFAULT 0,
+				inverse TEXT,
+				created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+				PRIMARY KEY (namespace, name)
+			);
+		`);
+	},
+};
@@ -0,0 +1,83 @@
+import { Migration } from './migrator.js';
+
+// Tie each entity's full-text row to the entity, at rowid -id, so the
+// triggers find it by rowid instead of scanning the unindexed name and
+// namespace columns of memory_fts. VACUUM may renumber implicit rowids,
+// so entities are rebuilt with an explicit id column. Observation rows
+// keep their positive observation ids. The observation triggers read
+// entities, so they are recreated, unchanged, around the rebuild.
+export const migration: Migration = {
+	version: 8,
+	name: 'entity_fts_rowids',
+	foreign_keys: false,
+	up: (db) => {
+		db.exec(`
+			CREATE TABLE entities_new (
+				id INTEGER PRIMARY KEY,
+				namespace TEXT NOT NULL DEFAULT 'default',
+				name TEXT NOT NULL,
+				entity_type TEXT NOT NULL,
+				created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+				UNIQUE (namespace, name)
+			);
+			INSERT INTO entities_new (id, namespace, name, entity_type, created_at)
+			SELECT rowid, namespace, name, entity_type, created_at FROM entities;
+
+			DROP TRIGGER entities_fts_insert;
+			DROP TRIGGER entities_fts_update;
+			DROP TRIGGER entities_fts_delete;
+			DROP TRIGGER observations_fts_insert;
+			DROP TRIGGER observations_fts_update;
+			DROP TABLE entities;
+			ALTER TABLE entities_new RENAME TO entities;
+
+			DELETE FROM memory_fts WHERE rowid < 0;
+			INSERT INTO memory_fts (rowid, name, entity_type, content, namespace)
+			SELECT -id, name, entity_type, '', namespace FROM entities;
+
+			CREATE TRIGGER entities_fts_insert
+			AFTER INSERT ON entities
+			BEGIN
+				INSERT INTO memory_fts (rowid, name, entity_type, content, namespace)
+				VALUES (-new.id, new.name, new.entity_type, '', new.namespace);
+			END;
+
+			CREATE TRIGGER entities_fts_update
+			AFTER UPDATE OF name, entity_type ON entities
+			BEGIN
+				UPDATE memory_fts SET name = new.name, entity_type = new.entity_type
+				WHERE rowid = -old.id;
+				UPDATE memory_fts SET name = new.name, entity_type = new.entity_type
+				WHERE rowid IN (
+					SELECT id FROM observations
+					WHERE namespace = old.namespace AND entity_name = old.name
+				);
+			END;
+
+			CREATE TRIGGER entities_fts_delete
+			AFTER DELETE ON entities
+			BEGIN
+				DELETE FROM memory_fts WHERE rowid = -old.id;
+			END;
+
+			CREATE TRIGGER observations_fts_insert
+			AFTER INSERT ON observations
+			BEGIN
+				INSERT INTO memory_fts (rowid, name, entity_type, content, namespace)
+				SELECT new.id, name, entity_type, new.content, namespace
+				FROM entities
+				WHERE namespace = new.namespace AND name = new.entity_name;
+			END;
+
+			CREATE TRIGGER observations_fts_update
+			AFTER UPDATE ON observations
+			BEGIN
+				DELETE FROM memory_fts WHERE rowid = old.id;
+				INSERT INTO memory_fts (rowid, name, entity_type, content, namespace)
+				SELECT new.id, name, entity_type, new.content, namespace
+				FROM entities
+				WHERE namespace = new.namespace AND name = new.entity_name;
+			END;
+		`);
+	},
+};
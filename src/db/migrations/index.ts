@@ -0,0 +1,28 @@
+import { migration as initial_schema } from './001_initial_schema.js';
+import { migration as full_text_search } from './002_full_text_search.js';
+import { migration as observation_updated_at } from './003_observation_updated_at.js';
+import { migration as relation_properties } from './004_relation_properties.js';
+import { migration as entity_history } from './005_entity_history.js';
+import { migration as namespaces } from './006_namespaces.js';
+import { migration as ontology } from './007_ontology.js';
+import { migration as entity_fts_rowids } from './008_entity_fts_rowids.js';
+import { Migration } from './migrator.js';
+
+// Ordered list of every schema migration. Append new migrations with
+// the next version number; never edit or reorder applied ones.
+export const migrations: Migration[] = [
+	initial_schema,
+	full_text_search,
+	observation_updated_at,
+	relation_properties,
+	entity_history,
+	namespaces,
+	ontology,
+	entity_fts_rowids,
+];
+
+export {
+	apply_migrations,
+	get_migration_status,
+} from './migrator.js';
+export type { Migration, MigrationStatus } from './migrator.js';
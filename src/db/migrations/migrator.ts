@@ -0,0 +1,110 @@
+import Database from 'better-sqlite3';
+
+export interface Migration {
+	version: number;
+	name: string;
+	up: (db: Database.Database) => void;
+	// Set to false for migrations that rebuild tables referenced by
+	// foreign keys. Enforcement cannot be toggled inside a transaction,
+	// so it is switched off around the migration's transaction.
+	foreign_keys?: false;
+}
+
+export interface MigrationStatus {
+	version: number;
+	name: string;
+	applied_at: string | null;
+}
+
+function ensure_migrations_table(db: Database.Database) {
+	db.exec(`
+		CREATE TABLE IF NOT EXISTS schema_migrations (
+			version INTEGER PRIMARY KEY,
+			name TEXT NOT NULL,
+			applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+		);
+	`);
+}
+
+function get_applied(db: Database.Database) {
+	ensure_migrations_table(db);
+	const rows = db
+		.prepare('SELECT version, applied_at FROM schema_migrations')
+		.all() as Array<{ version: number; applied_at: string }>;
+	return new Map(rows.map((row) => [row.version, row.applied_at]));
+}
+
+function check_order(migrations: Migration[]) {
+	migrations.forEach((migration, index) => {
+		if (
+			index > 0 &&
+			migration.version <= migrations[index - 1].version
+		) {
+			throw new Error(
+				`Migration ${migration.version} (${migration.name}) is out of order`,
+			);
+		}
+	});
+}
+
+export function get_migration_status(
+	db: Database.Database,
+	migrations: Migration[],
+): MigrationStatus[] {
+	const applied = get_applied(db);
+	return migrations.map((migration) => ({
+		version: migration.version,
+		name: migration.name,
+		applied_at: applied.get(migration.version) ?? null,
+	}));
+}
+
+// Apply every pending migration in version order, each in its own
+// transaction together with its schema_migrations record, so a failed
+// migration leaves the database at the last good version
+export function apply_migrations(
+	db: Database.Database,
+	migrations: Migration[],
+): Migration[] {
+	check_order(migrations);
+
+	const applied = get_applied(db);
+	const latest = migrations[migrations.length - 1]?.version ?? 0;
+	const newest_applied = Math.max(0, ...applied.keys());
+	if (newest_applied > latest) {
+		throw new Error(
+			`Database schema version ${newest_applied} is newer than the latest known migration (${latest}). Upgrade mcp-memory-sqlite to use this database.`,
+		);
+	}
+
+	const pending = migrations.filter(
+		(migration) => !applied.has(migration.version),
+	);
+	const record = db.prepare(
+		'INSERT INTO schema_migrations (version, name) VALUES (?, ?)',
+	);
+
+	for (const migration of pending) {
+		const foreign_keys = db.pragma('foreign_keys', { simple: true });
+		if (migration.foreign_keys === false) {
+			db.pragma('foreign_keys = OFF');
+		}
+
+		try {
+			db.transaction(() => {
+				migration.up(db);
+				record.run(migration.version, migration.name);
+			})();
+		} catch (error) {
+			throw new Error(
+				`Migration ${migration.version} (${migration.name}) failed: ${
+					error instanceof Error ? error.message : String(error)
+				}`,
+			);
+		} finally {
+			db.pragma(`foreign_keys = ${foreign_keys ? 'ON' : 'OFF'}`);
+		}
+	}
+
+	return pending;
+}
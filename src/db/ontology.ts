@@ -0,0 +1,469 @@
+import Database from 'better-sqlite3';
+import {
+	EntityTypeDefinition,
+	OntologySummary,
+	RegisterTypesResult,
+	RelationTypeDefinition,
+	TypeDescription,
+	TypeKind,
+} from '../types/index.js';
+import { ValidationError } from './errors.js';
+
+// Registered types of one namespace, by name
+export interface Ontology {
+	entity_types: Map<string, EntityTypeDefinition>;
+	relation_types: Map<string, RelationTypeDefinition>;
+}
+
+// Why a write does not fit the ontology
+export interface OntologyProblem {
+	message: string;
+	suggestion?: string;
+}
+
+interface EntityTypeRow {
+	name: string;
+	description: string | null;
+}
+
+interface RelationTypeRow extends EntityTypeRow {
+	source_types: string | null;
+	target_types: string | null;
+	symmetric: number;
+	inverse: string | null;
+}
+
+const EXAMPLE_LIMIT = 5;
+
+// Type names that differ only in case or punctuation share a key,
+// like "works_on" and "worksOn"
+function type_key(name: string): string {
+	return name.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+function to_entity_type(row: EntityTypeRow): EntityTypeDefinition {
+	return {
+		name: row.name,
+		...(row.description != null && { description: row.description }),
+	};
+}
+
+function to_relation_type(
+	row: RelationTypeRow,
+): RelationTypeDefinition {
+	return {
+		...to_entity_type(row),
+		...(row.source_types != null && {
+			sourceTypes: JSON.parse(row.source_types),
+		}),
+		...(row.target_types != null && {
+			targetTypes: JSON.parse(row.target_types),
+		}),
+		symmetric: row.symmetric === 1,
+		...(row.inverse != null && { inverse: row.inverse }),
+	};
+}
+
+export function load_ontology(
+	db: Database.Database,
+	namespace: string,
+): Ontology {
+	const entity_types = db
+		.prepare(
+			'SELECT name, description FROM entity_types WHERE namespace = ?',
+		)
+		.all(namespace) as EntityTypeRow[];
+	const relation_types = db
+		.prepare('SELECT * FROM relation_types WHERE namespace = ?')
+		.all(namespace) as RelationTypeRow[];
+	return {
+		entity_types: new Map(
+			entity_types.map((row) => [row.name, to_entity_type(row)]),
+		),
+		relation_types: new Map(
+			relation_types.map((row) => [row.name, to_relation_type(row)]),
+		),
+	};
+}
+
+function not_registered(
+	kind: TypeKind,
+	name: string,
+	registered: Iterable<string>,
+): OntologyProblem {
+	const suggestion = [...registered].find(
+		(candidate) => type_key(candidate) === type_key(name),
+	);
+	const message = `${kind === 'entity' ? 'Entity' : 'Relation'} type "${name}" is not registered`;
+	return suggestion
+		? {
+				message: `${message}; did you mean "${suggestion}"?`,
+				suggestion,
+			}
+		: { message };
+}
+
+// Entity types are only checked once some are registered
+export function check_entity_type(
+	ontology: Ontology,
+	entity_type: string,
+): OntologyProblem | undefined {
+	if (
+		ontology.entity_types.size === 0 ||
+		ontology.entity_types.has(entity_type)
+	) {
+		return undefined;
+	}
+	return not_registered(
+		'entity',
+		entity_type,
+		ontology.entity_types.keys(),
+	);
+}
+
+// Relation types are only checked once some are registered. The types
+// of ends that do not exist are left undefined and not checked.
+export function check_relation(
+	ontology: Ontology,
+	relation_type: string,
+	source_type: string | undefined,
+	target_type: string | undefined,
+): OntologyProblem | undefined {
+	if (ontology.relation_types.size === 0) return undefined;
+	const definition = ontology.relation_types.get(relation_type);
+	if (!definition) {
+		return not_registered(
+			'relation',
+			relation_type,
+			ontology.relation_types.keys(),
+		);
+	}
+
+	const ends = [
+		['source', definition.sourceTypes, source_type],
+		['target', definition.targetTypes, target_type],
+	] as const;
+	for (const [end, allowed, actual] of ends) {
+		if (
+			allowed &&
+			actual !== undefined &&
+			!allowed.includes(actual)
+		) {
+			return {
+				message: `Relation type "${relation_type}" needs a ${end} of type ${allowed
+					.map((type) => `"${type}"`)
+					.join(' or ')}, not "${actual}"`,
+			};
+		}
+	}
+	return undefined;
+}
+
+// The relation type that states the same fact read from the target:
+// the type itself when symmetric, otherwise its inverse, if any
+export function reverse_relation_type(
+	ontology: Ontology,
+	relation_type: string,
+): string | undefined {
+	const definition = ontology.relation_types.get(relation_type);
+	return definition?.symmetric ? relation_type : definition?.inverse;
+}
+
+function require_name(value: unknown, field: string, index: number) {
+	if (typeof value !== 'string' || value.trim() === '') {
+		throw new ValidationError(`${field} must be a non-empty string`, {
+			field,
+			index,
+		});
+	}
+}
+
+// Add or update types. A relation type's source and target types must
+// be registered entity types, here or before. Registering an inverse
+// also records it on the inverse type, when that is registered
+// without one, and registers the inverse type, with the source and
+// target types swapped, when it is not registered at all. Call inside
+// a transaction.
+export function register_types(
+	db: Database.Database,
+	namespace: string,
+	entity_types: EntityTypeDefinition[],
+	relation_types: RelationTypeDefinition[],
+): RegisterTypesResult {
+	const result: RegisterTypesResult = {
+		entityTypes: { created: [], updated: [] },
+		relationTypes: { created: [], updated: [] },
+	};
+	const exists = (table: string, name: string) =>
+		db
+			.prepare(
+				`SELECT 1 FROM ${table} WHERE namespace = ? AND name = ?`,
+			)
+			.get(namespace, name) !== undefined;
+
+	const upsert_entity_type = db.prepare(
+		`INSERT INTO entity_types (namespace, name, description)
+     VALUES (@namespace, @name, @description)
+     ON CONFLICT (namespace, name) DO UPDATE SET
+       description = excluded.description`,
+	);
+	for (const [index, type] of entity_types.entries()) {
+		require_name(type.name, 'entityTypes.name', index);
+		const outcome = exists('entity_types', type.name)
+			? 'updated'
+			: 'created';
+		upsert_entity_type.run({
+			namespace,
+			name: type.name,
+			description: type.description ?? null,
+		});
+		result.entityTypes[outcome].push(type.name);
+	}
+
+	const upsert_relation_type = db.prepare(
+		`INSERT INTO relation_types
+       (namespace, name, description, source_types, target_types, symmetric, inverse)
+     VALUES (@namespace, @name, @description, @source_types, @target_types, @symmetric, @inverse)
+     ON CONFLICT (namespace, name) DO UPDATE SET
+       description = excluded.description,
+       source_types = excluded.source_types,
+       target_types = excluded.target_types,
+       symmetric = excluded.symmetric,
+       inverse = excluded.inverse`,
+	);
+	const link_inverse = db.prepare(
+		`UPDATE relation_types SET inverse = @name
+     WHERE namespace = @namespace AND name = @inverse AND inverse IS NULL`,
+	);
+	for (const [index, type] of relation_types.entries()) {
+		require_name(type.name, 'relationTypes.name', index);
+		if (type.inverse !== undefined) {
+			require_name(type.inverse, 'relationTypes.inverse', index);
+			if (type.symmetric || type.inverse === type.name) {
+				throw new ValidationError(
+					`Relation type "${type.name}" cannot be symmetric and have an inverse; a symmetric relation is its own inverse`,
+					{ field: 'relationTypes.inverse', index },
+				);
+			}
+		}
+		for (const field of ['sourceTypes', 'targetTypes'] as const) {
+			const unknown = (type[field] ?? []).filter(
+				(name) => !exists('entity_types', name),
+			);
+			if (unknown.length > 0) {
+				throw new ValidationError(
+					`${field} of relation type "${type.name}" name unregistered entity types: ${unknown.join(', ')}`,
+					{ field: `relationTypes.${field}`, index, unknown },
+				);
+			}
+		}
+
+		const outcome = exists('relation_types', type.name)
+			? 'updated'
+			: 'created';
+		upsert_relation_type.run({
+			namespace,
+			name: type.name,
+			description: type.description ?? null,
+			source_types: type.sourceTypes
+				? JSON.stringify(type.sourceTypes)
+				: null,
+			target_types: type.targetTypes
+				? JSON.stringify(type.targetTypes)
+				: null,
+			symmetric: type.symmetric ? 1 : 0,
+			inverse: type.inverse ?? null,
+		});
+		result.relationTypes[outcome].push(type.name);
+	}
+	// After the upserts, so an inverse registered later in the same
+	// call is linked too
+	for (const type of relation_types) {
+		if (type.inverse === undefined) continue;
+		if (exists('relation_types', type.inverse)) {
+			link_inverse.run({
+				namespace,
+				name: type.name,
+				inverse: type.inverse,
+			});
+			continue;
+		}
+		upsert_relation_type.run({
+			namespace,
+			name: type.inverse,
+			description: null,
+			source_types: type.targetTypes
+				? JSON.stringify(type.targetTypes)
+				: null,
+			target_types: type.sourceTypes
+				? JSON.stringify(type.sourceTypes)
+				: null,
+			symmetric: 0,
+			inverse: type.name,
+		});
+		result.relationTypes.created.push(type.inverse);
+	}
+	return result;
+}
+
+// Registered types with how often each is used, and the types in use
+// that are not registered
+export function summarise_ontology(
+	db: Database.Database,
+	namespace: string,
+): Omit<OntologySummary, 'mode'> {
+	const entity_types = db
+		.prepare(
+			`SELECT t.name, t.description,
+         (SELECT COUNT(*) FROM entities e
+          WHERE e.namespace = t.namespace AND e.entity_type = t.name) AS entities
+       FROM entity_types t
+       WHERE t.namespace = ?
+       ORDER BY t.name`,
+		)
+		.all(namespace) as Array<EntityTypeRow & { entities: number }>;
+	const relation_types = db
+		.prepare(
+			`SELECT t.*,
+         (SELECT COUNT(*) FROM relations r
+          WHERE r.namespace = t.namespace AND r.relation_type = t.name) AS relations
+       FROM relation_types t
+       WHERE t.namespace = ?
+       ORDER BY t.name`,
+		)
+		.all(namespace) as Array<RelationTypeRow & { relations: number }>;
+
+	return {
+		entityTypes: entity_types.map((row) => ({
+			...to_entity_type(row),
+			entities: row.entities,
+		})),
+		relationTypes: relation_types.map((row) => ({
+			...to_relation_type(row),
+			relations: row.relations,
+		})),
+		unregistered: {
+			entityTypes: db
+				.prepare(
+					`SELECT e.entity_type AS name, COUNT(*) AS entities
+           FROM entities e
+           WHERE e.namespace = ?
+             AND NOT EXISTS (
+               SELECT 1 FROM entity_types t
+               WHERE t.namespace = e.namespace AND t.name = e.entity_type
+             )
+           GROUP BY e.entity_type
+           ORDER BY entities DESC, name`,
+				)
+				.all(namespace) as Array<{ name: string; entities: number }>,
+			relationTypes: db
+				.prepare(
+					`SELECT r.relation_type AS name, COUNT(*) AS relations
+           FROM relations r
+           WHERE r.namespace = ?
+             AND NOT EXISTS (
+               SELECT 1 FROM relation_types t
+               WHERE t.namespace = r.namespace AND t.name = r.relation_type
+             )
+           GROUP BY r.relation_type
+           ORDER BY relations DESC, name`,
+				)
+				.all(namespace) as Array<{ name: string; relations: number }>,
+		},
+	};
+}
+
+// A type's definition, if registered, with its use and similar
+// types. kind picks between an entity and a relation type of the same
+// name, preferring the entity type. Undefined for a type that is
+// neither registered nor used.
+export function describe_type(
+	db: Database.Database,
+	namespace: string,
+	name: string,
+	kind?: TypeKind,
+): TypeDescription | undefined {
+	const count = (sql: string) =>
+		(db.prepare(sql).get(namespace, name) as { count: number }).count;
+	const similar = (sql: string) =>
+		(db.prepare(sql).all({ namespace }) as Array<{ name: string }>)
+			.map((row) => row.name)
+			.filter(
+				(other) =>
+					other !== name && type_key(other) === type_key(name),
+			);
+
+	const entity_row = db
+		.prepare(
+			'SELECT name, description FROM entity_types WHERE namespace = ? AND name = ?',
+		)
+		.get(namespace, name) as EntityTypeRow | undefined;
+	const entities = count(
+		'SELECT COUNT(*) AS count FROM entities WHERE namespace = ? AND entity_type = ?',
+	);
+
+	if (kind === 'entity' || (!kind && (entity_row || entities > 0))) {
+		if (!entity_row && entities === 0) return undefined;
+		const allowed = (column: string) =>
+			(
+				db
+					.prepare(
+						`SELECT name FROM relation_types
+             WHERE namespace = ?
+               AND ? IN (SELECT value FROM json_each(${column}))
+             ORDER BY name`,
+					)
+					.all(namespace, name) as Array<{ name: string }>
+			).map((row) => row.name);
+		return {
+			kind: 'entity',
+			...(entity_row ? to_entity_type(entity_row) : { name }),
+			registered: entity_row !== undefined,
+			entities,
+			examples: (
+				db
+					.prepare(
+						`SELECT name FROM entities
+             WHERE namespace = ? AND entity_type = ?
+             ORDER BY name LIMIT ${EXAMPLE_LIMIT}`,
+					)
+					.all(namespace, name) as Array<{ name: string }>
+			).map((row) => row.name),
+			asSource: allowed('source_types'),
+			asTarget: allowed('target_types'),
+			similar: similar(
+				`SELECT name FROM entity_types WHERE namespace = @namespace
+         UNION
+         SELECT DISTINCT entity_type FROM entities WHERE namespace = @namespace`,
+			),
+		};
+	}
+
+	const relation_row = db
+		.prepare(
+			'SELECT * FROM relation_types WHERE namespace = ? AND name = ?',
+		)
+		.get(namespace, name) as RelationTypeRow | undefined;
+	const relations = count(
+		'SELECT COUNT(*) AS count FROM relations WHERE namespace = ? AND relation_type = ?',
+	);
+	if (!relation_row && relations === 0) return undefined;
+	return {
+		kind: 'relation',
+		...(relation_row ? to_relation_type(relation_row) : { name }),
+		registered: relation_row !== undefined,
+		relations,
+		examples: db
+			.prepare(
+				`SELECT source AS "from", target AS "to" FROM relations
+         WHERE namespace = ? AND relation_type = ?
+         ORDER BY source, target LIMIT ${EXAMPLE_LIMIT}`,
+			)
+			.all(namespace, name) as Array<{ from: string; to: string }>,
+		similar: similar(
+			`SELECT name FROM relation_types WHERE namespace = @namespace
+       UNION
+       SELECT DISTINCT relation_type FROM relations WHERE namespace = @namespace`,
+		),
+	};
+}
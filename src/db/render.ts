@@ -0,0 +1,204 @@
+import { Entity, Relation, RenderFormat } from '../types/index.js';
+import { ValidationError } from './errors.js';
+
+// Serialisation of a set of entities and the relations between them
+// as diagrams. Nodes get generated ids (n0, n1, ...) so any entity name
+// is safe, and each entity type gets its own colour.
+
+const TYPE_COLOURS = [
+	'#8dd3c7',
+	'#ffffb3',
+	'#bebada',
+	'#fb8072',
+	'#80b1d3',
+	'#fdb462',
+	'#b3de69',
+	'#fccde5',
+	'#d9d9d9',
+	'#bc80bd',
+];
+
+interface DiagramNode {
+	id: string;
+	entity: Entity;
+	colour: string;
+}
+
+interface Diagram {
+	nodes: DiagramNode[];
+	edges: Array<{
+		source: string;
+		target: string;
+		relation: Relation;
+	}>;
+	// Entity types in order of first appearance, with their colours
+	types: Map<string, string>;
+}
+
+export function render_diagram(
+	entities: Entity[],
+	relations: Relation[],
+	format: RenderFormat,
+): string {
+	const diagram = build_diagram(entities, relations);
+	switch (format) {
+		case 'graphml':
+			return to_graphml(diagram);
+		case 'dot':
+			return to_dot(diagram);
+		case 'mermaid':
+			return to_mermaid(diagram);
+		default:
+			throw new ValidationError(`Unknown diagram format: ${format}`, {
+				field: 'format',
+			});
+	}
+}
+
+// Relations with an end outside the given entities are left out
+function build_diagram(
+	entities: Entity[],
+	relations: Relation[],
+): Diagram {
+	const types = new Map<string, string>();
+	const ids = new Map<string, string>();
+	const nodes: DiagramNode[] = [];
+	for (const entity of entities) {
+		if (ids.has(entity.name)) continue;
+		if (!types.has(entity.entityType)) {
+			types.set(
+				entity.entityType,
+				TYPE_COLOURS[types.size % TYPE_COLOURS.length],
+			);
+		}
+		const id = `n${nodes.length}`;
+		ids.set(entity.name, id);
+		nodes.push({ id, entity, colour: types.get(entity.entityType)! });
+	}
+
+	const edges = relations.flatMap((relation) => {
+		const source = ids.get(relation.from);
+		const target = ids.get(relation.to);
+		return source && target ? [{ source, target, relation }] : [];
+	});
+
+	return { nodes, edges, types };
+}
+
+function escape_xml(value: string): string {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&apos;');
+}
+
+function to_graphml({ nodes, edges }: Diagram): string {
+	const data = (key: string, value: string | number | undefined) =>
+		value === undefined
+			? []
+			: [
+					`      <data key="${key}">${escape_xml(String(value))}</data>`,
+				];
+
+	return [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+		'  <key id="name" for="node" attr.name="name" attr.type="string"/>',
+		'  <key id="entityType" for="node" attr.name="entityType" attr.type="string"/>',
+		'  <key id="observations" for="node" attr.name="observations" attr.type="string"/>',
+		'  <key id="color" for="node" attr.name="color" attr.type="string"/>',
+		'  <key id="relationType" for="edge" attr.name="relationType" attr.type="string"/>',
+		'  <key id="description" for="edge" attr.name="description" attr.type="string"/>',
+		'  <key id="strength" for="edge" attr.name="strength" attr.type="double"/>',
+		'  <graph id="memory" edgedefault="directed">',
+		...nodes.flatMap(({ id, entity, colour }) => [
+			`    <node id="${id}">`,
+			...data('name', entity.name),
+			...data('entityType', entity.entityType),
+			...data('observations', entity.observations.join('\n')),
+			...data('color', colour),
+			'    </node>',
+		]),
+		...edges.flatMap(({ source, target, relation }, i) => [
+			`    <edge id="e${i}" source="${source}" target="${target}">`,
+			...data('relationType', relation.relationType),
+			...data('description', relation.description),
+			...data('strength', relation.strength),
+			'    </edge>',
+		]),
+		'  </graph>',
+		'</graphml>',
+	].join('\n');
+}
+
+function quote_dot(value: string): string {
+	return `"${value
+		.replace(/\\/g, '\\\\')
+		.replace(/"/g, '\\"')
+		.replace(/\r?\n/g, '\\n')}"`;
+}
+
+function to_dot({ nodes, edges }: Diagram): string {
+	return [
+		'digraph memory {',
+		'  node [shape=box, style="rounded,filled"];',
+		...nodes.map(
+			({ id, entity, colour }) =>
+				`  ${id} [label=${quote_dot(`${entity.name}\n(${entity.entityType})`)}, fillcolor="${colour}"];`,
+		),
+		...edges.map(
+			({ source, target, relation }) =>
+				`  ${source} -> ${target} [label=${quote_dot(relation.relationType)}];`,
+		),
+		'}',
+	].join('\n');
+}
+
+// Mermaid has no escape character; quotes and markup become entity
+// codes and line breaks become spaces
+function quote_mermaid(value: string): string {
+	return `"${value
+		.replace(/"/g, '#quot;')
+		.replace(/</g, '#lt;')
+		.replace(/>/g, '#gt;')
+		.replace(/\s+/g, ' ')}"`;
+}
+
+function to_mermaid({ nodes, edges, types }: Diagram): string {
+	// Class names are derived from the type, prefixed so that no type
+	// becomes Mermaid's "default" class, and made unique when two types
+	// only differ in characters Mermaid does not allow
+	const classes = new Map<string, string>();
+	const used = new Set<string>();
+	for (const type of types.keys()) {
+		const base = `type_${type.replace(/[^A-Za-z0-9_]/g, '_')}`;
+		let name = base;
+		for (let i = 2; used.has(name); i++) name = `${base}_${i}`;
+		used.add(name);
+		classes.set(type, name);
+	}
+
+	return [
+		'graph LR',
+		...nodes.map(
+			({ id, entity }) => `  ${id}[${quote_mermaid(entity.name)}]`,
+		),
+		...edges.map(
+			({ source, target, relation }) =>
+				`  ${source} -->|${quote_mermaid(relation.relationType)}| ${target}`,
+		),
+		...[...types].map(
+			([type, colour]) =>
+				`  classDef ${classes.get(type)} fill:${colour},stroke:#333`,
+		),
+		...[...types.keys()].map(
+			(type) =>
+				`  class ${nodes
+					.filter((node) => node.entity.entityType === type)
+					.map((node) => node.id)
+					.join(',')} ${classes.get(type)}`,
+		),
+	].join('\n');
+}
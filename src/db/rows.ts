@@ -0,0 +1,117 @@
+import {
+	Observation,
+	Relation,
+	RelationPropertyUpdates,
+} from '../types/index.js';
+import { ValidationError } from './errors.js';
+
+// Row shapes of the base tables and their conversion to the public
+// types
+
+export interface ObservationRow {
+	id: number;
+	entity_name: string;
+	content: string;
+	created_at: string;
+	updated_at: string | null;
+}
+
+// SQLite CURRENT_TIMESTAMP values are UTC without a zone designator
+export function to_iso_timestamp(value: string): string {
+	return value.includes('T') ? value : `${value.replace(' ', 'T')}Z`;
+}
+
+// Inverse of to_iso_timestamp, for comparisons with stored timestamps
+export function to_sql_timestamp(value: string): string {
+	const date = new Date(value);
+	if (Number.isNaN(date.getTime())) {
+		throw new ValidationError(`Invalid date: ${value}`);
+	}
+	return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+export function to_observation(row: ObservationRow): Observation {
+	return {
+		id: row.id,
+		content: row.content,
+		createdAt: to_iso_timestamp(row.created_at),
+		updatedAt: to_iso_timestamp(row.updated_at ?? row.created_at),
+	};
+}
+
+export interface RelationRow {
+	source: string;
+	target: string;
+	relation_type: string;
+	description: string | null;
+	strength: number | null;
+	tags: string | null;
+	properties: string | null;
+	created_at: string;
+}
+
+export const RELATION_PROPERTY_KEYS = [
+	'description',
+	'strength',
+	'tags',
+	'properties',
+] as const;
+
+export const RELATION_COLUMNS =
+	'source, target, relation_type, description, strength, tags, properties, created_at';
+
+// Optional relation properties are left out when unset to keep
+// results compact
+export function to_relation(row: RelationRow): Relation {
+	return {
+		from: row.source,
+		to: row.target,
+		relationType: row.relation_type,
+		...(row.description !== null && { description: row.description }),
+		...(row.strength !== null && { strength: row.strength }),
+		...(row.tags !== null && { tags: JSON.parse(row.tags) }),
+		...(row.properties !== null && {
+			properties: JSON.parse(row.properties),
+		}),
+		createdAt: to_iso_timestamp(row.created_at),
+	};
+}
+
+export function validate_relation_properties(
+	relation: RelationPropertyUpdates,
+) {
+	const { strength, tags, properties } = relation;
+	if (
+		strength !== undefined &&
+		strength !== null &&
+		!(strength >= 0 && strength <= 1)
+	) {
+		throw new ValidationError(
+			'Relation strength must be between 0 and 1',
+			{ field: 'strength' },
+		);
+	}
+	if (
+		tags !== undefined &&
+		tags !== null &&
+		!(
+			Array.isArray(tags) &&
+			tags.every((tag) => typeof tag === 'string')
+		)
+	) {
+		throw new ValidationError(
+			'Relation tags must be an array of strings',
+			{ field: 'tags' },
+		);
+	}
+	if (
+		properties !== undefined &&
+		properties !== null &&
+		(typeof properties !== 'object' || Array.isArray(properties))
+	) {
+		throw new ValidationError(
+			'Relation properties must be a JSON object',
+			{ field: 'properties' },
+		);
+	}
+}
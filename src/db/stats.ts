@@ -0,0 +1,172 @@
+import Database from 'better-sqlite3';
+import { existsSync, statSync } from 'fs';
+import {
+	EntityDegree,
+	MemoryStats,
+	StatsPeriod,
+} from '../types/index.js';
+
+// How many periods of growth memory_stats reports
+const GROWTH_PERIODS = 12;
+
+// strftime formats that bucket created_at values into periods
+const PERIOD_FORMATS: Record<StatsPeriod, string> = {
+	day: '%Y-%m-%d',
+	week: '%Y-W%W',
+	month: '%Y-%m',
+};
+
+// Condition on entities e that no relation starts or ends at
+export const NO_RELATIONS = `NOT EXISTS (
+  SELECT 1 FROM relations r
+  WHERE r.namespace = e.namespace
+    AND (r.source = e.name OR r.target = e.name)
+)`;
+
+const OBSERVATION_COUNT = `(
+  SELECT COUNT(*) FROM observations o
+  WHERE o.namespace = e.namespace AND o.entity_name = e.name
+)`;
+
+function file_size(path: string): number {
+	return existsSync(path) ? statSync(path).size : 0;
+}
+
+// Statistics for one namespace, or for every namespace when all is
+// set, in which case listed entities carry their namespace
+export function collect_stats(
+	db: Database.Database,
+	namespace: string,
+	all: boolean,
+	limit: number,
+	period: StatsPeriod,
+): MemoryStats {
+	const params = { namespace, all: all ? 1 : 0, limit };
+	const scope = (alias: string) =>
+		`(@all = 1 OR ${alias}.namespace = @namespace)`;
+
+	const count = (table: string) =>
+		(
+			db
+				.prepare(
+					`SELECT COUNT(*) AS count FROM ${table} t WHERE ${scope('t')}`,
+				)
+				.get(params) as { count: number }
+		).count;
+
+	// Entities matching condition: how many, and the first limit of
+	// them by name
+	const entity_list = (condition: string) => {
+		const { count } = db
+			.prepare(
+				`SELECT COUNT(*) AS count FROM entities e
+         WHERE ${scope('e')} AND ${condition}`,
+			)
+			.get(params) as { count: number };
+		const rows = db
+			.prepare(
+				`SELECT e.namespace, e.name, e.entity_type AS entityType
+         FROM entities e
+         WHERE ${scope('e')} AND ${condition}
+         ORDER BY e.name, e.namespace
+         LIMIT @limit`,
+			)
+			.all(params) as Array<Omit<EntityDegree, 'degree'>>;
+		return {
+			count,
+			entities: rows.map(({ namespace: ns, ...row }) => ({
+				...row,
+				...(all && { namespace: ns }),
+			})),
+		};
+	};
+
+	const top_entities = (
+		db
+			.prepare(
+				`SELECT * FROM (
+           SELECT e.namespace, e.name, e.entity_type AS entityType,
+             (SELECT COUNT(*) FROM relations r
+              WHERE r.namespace = e.namespace
+                AND (r.source = e.name OR r.target = e.name)) AS degree
+           FROM entities e
+           WHERE ${scope('e')}
+         )
+         WHERE degree > 0
+         ORDER BY degree DESC, name, namespace
+         LIMIT @limit`,
+			)
+			.all(params) as EntityDegree[]
+	).map(({ namespace: ns, ...row }) => ({
+		...row,
+		...(all && { namespace: ns }),
+	}));
+
+	const growth = db
+		.prepare(
+			`WITH events(period, kind) AS (
+         SELECT strftime(@format, created_at), 'entity' FROM entities t WHERE ${scope('t')}
+         UNION ALL
+         SELECT strftime(@format, created_at), 'observation' FROM observations t WHERE ${scope('t')}
+         UNION ALL
+         SELECT strftime(@format, created_at), 'relation' FROM relations t WHERE ${scope('t')}
+       ),
+       periods AS (
+         SELECT period,
+           SUM(kind = 'entity') AS entities,
+           SUM(kind = 'observation') AS observations,
+           SUM(kind = 'relation') AS relations
+         FROM events
+         GROUP BY period
+       ),
+       running AS (
+         SELECT *, SUM(entities) OVER (ORDER BY period) AS totalEntities
+         FROM periods
+       )
+       SELECT * FROM (
+         SELECT * FROM running ORDER BY period DESC LIMIT @periods
+       )
+       ORDER BY period`,
+		)
+		.all({
+			...params,
+			format: PERIOD_FORMATS[period],
+			periods: GROWTH_PERIODS,
+		}) as MemoryStats['growth'];
+
+	// db.name is the path the database was opened with
+	const in_memory = db.memory || db.name === '';
+
+	return {
+		namespace,
+		counts: {
+			entities: count('entities'),
+			observations: count('observations'),
+			relations: count('relations'),
+		},
+		entityTypes: db
+			.prepare(
+				`SELECT entity_type AS entityType, COUNT(*) AS count
+         FROM entities t WHERE ${scope('t')}
+         GROUP BY entity_type
+         ORDER BY count DESC, entity_type`,
+			)
+			.all(params) as MemoryStats['entityTypes'],
+		relationTypes: db
+			.prepare(
+				`SELECT relation_type AS relationType, COUNT(*) AS count
+         FROM relations t WHERE ${scope('t')}
+         GROUP BY relation_type
+         ORDER BY count DESC, relation_type`,
+			)
+			.all(params) as MemoryStats['relationTypes'],
+		topEntities: top_entities,
+		orphans: entity_list(NO_RELATIONS),
+		singleObservation: entity_list(`${OBSERVATION_COUNT} = 1`),
+		storage: {
+			databaseBytes: in_memory ? 0 : file_size(db.name),
+			walBytes: in_memory ? 0 : file_size(`${db.name}-wal`),
+		},
+		growth,
+	};
+}
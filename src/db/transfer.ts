@@ -0,0 +1,249 @@
+import { Entity, GraphFormat, Relation } from '../types/index.js';
+import { ValidationError, with_context } from './errors.js';
+import { validate_relation_properties } from './rows.js';
+
+// Conversion between graphs and their export formats. The JSONL
+// format matches the memory.jsonl file of the reference server-memory
+// server: one { type: "entity" | "relation", ... } object per line.
+
+export type GraphRecord =
+	| ({ type: 'entity' } & Entity)
+	| ({ type: 'relation' } & Relation);
+
+export interface ParsedGraph {
+	entities: Entity[];
+	relations: Relation[];
+}
+
+export function format_graph(
+	records: Iterable<GraphRecord>,
+	format: GraphFormat,
+	namespace: string,
+): string {
+	if (format === 'jsonl') {
+		const lines: string[] = [];
+		for (const record of records) lines.push(JSON.stringify(record));
+		return lines.join('\n');
+	}
+
+	const graph: ParsedGraph & {
+		namespace: string;
+		exportedAt: string;
+	} = {
+		namespace,
+		exportedAt: new Date().toISOString().replace(/\.\d+Z$/, 'Z'),
+		entities: [],
+		relations: [],
+	};
+	for (const { type, ...record } of records) {
+		if (type === 'entity') graph.entities.push(record as Entity);
+		else graph.relations.push(record as Relation);
+	}
+	return JSON.stringify(graph, null, 2);
+}
+
+// Parse and validate an exported graph. Entities listed more than
+// once are combined, and for relations listed more than once the last
+// one wins.
+export function parse_graph(
+	data: string,
+	format: GraphFormat,
+): ParsedGraph {
+	const entities = new Map<string, Entity>();
+	const relations = new Map<string, Relation>();
+
+	const add_entity = (value: unknown, where: string) => {
+		const entity = to_entity(value, where);
+		const existing = entities.get(entity.name);
+		entities.set(entity.name, {
+			...entity,
+			observations: [
+				...(existing?.observations ?? []),
+				...entity.observations,
+			],
+		});
+	};
+	const add_relation = (value: unknown, where: string) => {
+		const relation = to_relation_record(value, where);
+		relations.set(
+			JSON.stringify([
+				relation.from,
+				relation.to,
+				relation.relationType,
+			]),
+			relation,
+		);
+	};
+
+	if (format === 'jsonl') {
+		data.split(/\r?\n/).forEach((line, index) => {
+			if (line.trim() === '') return;
+			const where = `line ${index + 1}`;
+			const record = parse_json(line, where);
+			if (!is_object(record)) {
+				throw new ValidationError(`Expected an object on ${where}`, {
+					location: where,
+				});
+			}
+			if (record.type === 'entity') add_entity(record, where);
+			else if (record.type === 'relation')
+				add_relation(record, where);
+			else {
+				throw new ValidationError(
+					`Unknown record type on ${where}: ${JSON.stringify(record.type)}`,
+					{ location: where },
+				);
+			}
+		});
+	} else {
+		const graph = parse_json(data, 'input');
+		if (
+			!is_object(graph) ||
+			!Array.isArray(graph.entities ?? []) ||
+			!Array.isArray(graph.relations ?? [])
+		) {
+			throw new ValidationError(
+				'Expected a JSON object with entities and relations arrays',
+			);
+		}
+		(graph.entities as unknown[] | undefined)?.forEach((value, i) =>
+			add_entity(value, `entities[${i}]`),
+		);
+		(graph.relations as unknown[] | undefined)?.forEach((value, i) =>
+			add_relation(value, `relations[${i}]`),
+		);
+	}
+
+	return {
+		entities: [...entities.values()],
+		relations: [...relations.values()],
+	};
+}
+
+function parse_json(text: string, where: string): unknown {
+	try {
+		return JSON.parse(text);
+	} catch (error) {
+		throw new ValidationError(
+			`Invalid JSON in ${where}: ${
+				error instanceof Error ? error.message : String(error)
+			}`,
+			{ location: where },
+		);
+	}
+}
+
+function is_object(value: unknown): value is Record<string, unknown> {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		!Array.isArray(value)
+	);
+}
+
+function is_name(value: unknown): value is string {
+	return typeof value === 'string' && value.trim() !== '';
+}
+
+// Observations may be plain strings or detailed { content } records.
+// Names, types and observations must not be blank, as in
+// create_entities, but an entity may have no observations, like the
+// placeholders autoCreateEntities makes.
+function to_entity(value: unknown, where: string): Entity {
+	if (
+		!is_object(value) ||
+		!is_name(value.name) ||
+		typeof value.entityType !== 'string' ||
+		!Array.isArray(value.observations ?? [])
+	) {
+		throw new ValidationError(
+			`Invalid entity in ${where}: expected name, entityType and observations`,
+			{ location: where },
+		);
+	}
+	if (!is_name(value.entityType)) {
+		throw new ValidationError(
+			`Invalid entity in ${where}: entityType must be a non-empty string`,
+			{
+				location: where,
+				entityName: value.name,
+				field: 'entityType',
+			},
+		);
+	}
+	const observations = (
+		(value.observations as unknown[] | undefined) ?? []
+	).map((obs) => (is_object(obs) ? obs.content : obs));
+	if (
+		!observations.every(
+			(obs) => typeof obs === 'string' && obs.trim() !== '',
+		)
+	) {
+		throw new ValidationError(
+			`Invalid entity in ${where}: observations must be non-empty strings`,
+			{
+				location: where,
+				entityName: value.name,
+				field: 'observations',
+			},
+		);
+	}
+	return {
+		name: value.name,
+		entityType: value.entityType,
+		observations: observations as string[],
+	};
+}
+
+function to_relation_record(value: unknown, where: string): Relation {
+	if (
+		!is_object(value) ||
+		!is_name(value.from) ||
+		!is_name(value.to) ||
+		!is_name(value.relationType)
+	) {
+		throw new ValidationError(
+			`Invalid relation in ${where}: expected from, to and relationType`,
+			{ location: where },
+		);
+	}
+	const relation: Relation = {
+		from: value.from,
+		to: value.to,
+		relationType: value.relationType,
+		...(value.description != null && {
+			description: value.description as string,
+		}),
+		...(value.strength != null && {
+			strength: value.strength as number,
+		}),
+		...(value.tags != null && { tags: value.tags as string[] }),
+		...(value.properties != null && {
+			properties: value.properties as Record<string, unknown>,
+		}),
+	};
+	if (
+		relation.description !== undefined &&
+		typeof relation.description !== 'string'
+	) {
+		throw new ValidationError(
+			`Invalid relation in ${where}: description must be a string`,
+			{ location: where },
+		);
+	}
+	if (
+		relation.strength !== undefined &&
+		typeof relation.strength !== 'number'
+	) {
+		throw new ValidationError(
+			`Invalid relation in ${where}: strength must be a number`,
+			{ location: where },
+		);
+	}
+	try {
+		validate_relation_properties(relation);
+	} catch (error) {
+		throw with_context(error, `Invalid relation in ${where}`);
+	}
+	return relation;
+}
@@ -0,0 +1,318 @@
+import { HttpTransport } from '@tmcp/transport-http';
+import { createHash, timingSafeEqual } from 'crypto';
+import {
+	createServer,
+	IncomingMessage,
+	Server,
+	ServerResponse,
+} from 'http';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { McpServer } from 'tmcp';
+
+export interface HttpConfig {
+	host: string;
+	port: number;
+	// Clients must send "Authorization: Bearer <token>" when set
+	token?: string;
+	// Host names accepted in the Host header besides the loopback names
+	// and the address the server binds to
+	allowedHosts: string[];
+	// Origins of browser pages allowed to call the server besides its
+	// own
+	allowedOrigins: string[];
+}
+
+const MCP_PATH = '/mcp';
+const HEALTH_PATH = '/health';
+
+// How long open streams get to finish before shutdown cuts them off
+const SHUTDOWN_GRACE_MS = 5000;
+
+// Largest request body read; bigger ones get a 413
+const MAX_BODY_BYTES = 8 * 1024 * 1024;
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+const WILDCARD_HOSTS = ['0.0.0.0', '::', '[::]'];
+
+function parse_list(value: string | undefined): string[] {
+	return (value ?? '')
+		.split(',')
+		.map((item) => item.trim())
+		.filter(Boolean);
+}
+
+// HTTP mode is selected with --http or MEMORY_TRANSPORT=http. Flags
+// take precedence over MEMORY_HTTP_HOST and MEMORY_HTTP_PORT; the
+// token is only read from MEMORY_HTTP_TOKEN, keeping it out of process
+// listings. MEMORY_HTTP_ALLOWED_HOSTS and MEMORY_HTTP_ALLOWED_ORIGINS
+// are comma-separated.
+export function get_http_config(flags: {
+	host?: string;
+	port?: string;
+}): HttpConfig {
+	const port = Number(
+		flags.port ?? process.env.MEMORY_HTTP_PORT ?? '3000',
+	);
+	if (!Number.isInteger(port) || port < 0 || port > 65535) {
+		throw new Error(
+			`Invalid port: ${flags.port ?? process.env.MEMORY_HTTP_PORT}`,
+		);
+	}
+
+	return {
+		host: flags.host ?? process.env.MEMORY_HTTP_HOST ?? '127.0.0.1',
+		port,
+		token: process.env.MEMORY_HTTP_TOKEN || undefined,
+		allowedHosts: parse_list(process.env.MEMORY_HTTP_ALLOWED_HOSTS),
+		allowedOrigins: parse_list(
+			process.env.MEMORY_HTTP_ALLOWED_ORIGINS,
+		),
+	};
+}
+
+function json_response(status: number, body: unknown, headers = {}) {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: { 'Content-Type': 'application/json', ...headers },
+	});
+}
+
+// Compare digests so the check takes the same time for any token
+function token_matches(header: string | null, token: string) {
+	const match = /^Bearer\s+(.+)$/i.exec(header ?? '');
+	if (!match) return false;
+	const digest = (value: string) =>
+		createHash('sha256').update(value).digest();
+	return timingSafeEqual(digest(match[1].trim()), digest(token));
+}
+
+// The host name of a Host header or origin, lower-cased and without
+// the port; IPv6 addresses keep their brackets
+function host_name(host: string): string {
+	return host.toLowerCase().replace(/:\d*$/, '');
+}
+
+// Requests must name an allowed host, so that a page on a domain
+// rebound to this address is refused, and browsers may only call from
+// the server's own origin or an allowed one
+function check_request_origin(
+	req: IncomingMessage,
+	hosts: Set<string>,
+	origins: Set<string>,
+): string | undefined {
+	const host = req.headers.host;
+	if (!host || !hosts.has(host_name(host))) {
+		return `Host not allowed: ${host ?? '(none)'}`;
+	}
+	const origin = req.headers.origin;
+	if (origin === undefined || origins.has(origin)) return undefined;
+	let url: URL | undefined;
+	try {
+		url = new URL(origin);
+	} catch {
+		// Not a URL, so not an allowed origin
+	}
+	if (!url || url.host.toLowerCase() !== host.toLowerCase()) {
+		return `Origin not allowed: ${origin}`;
+	}
+}
+
+class BodyTooLargeError extends Error {
+	constructor() {
+		super(`Request body is larger than ${MAX_BODY_BYTES} bytes`);
+	}
+}
+
+// Read the body, giving up once it exceeds MAX_BODY_BYTES
+async function read_body(
+	req: IncomingMessage,
+): Promise<string | undefined> {
+	if (Number(req.headers['content-length']) > MAX_BODY_BYTES) {
+		throw new BodyTooLargeError();
+	}
+	const chunks: Buffer[] = [];
+	let size = 0;
+	for await (const chunk of req as AsyncIterable<Buffer>) {
+		size += chunk.length;
+		if (size > MAX_BODY_BYTES) throw new BodyTooLargeError();
+		chunks.push(chunk);
+	}
+	return Buffer.concat(chunks).toString('utf8');
+}
+
+async function to_request(req: IncomingMessage, url: URL) {
+	const headers = new Headers();
+	for (const [key, value] of Object.entries(req.headers)) {
+		for (const item of [value ?? []].flat()) {
+			headers.append(key, item);
+		}
+	}
+
+	const body =
+		req.method !== 'GET' && req.method !== 'HEAD'
+			? await read_body(req)
+			: undefined;
+	return new Request(url, { method: req.method, headers, body });
+}
+
+async function send_response(
+	res: ServerResponse,
+	response: Response,
+) {
+	res.writeHead(
+		response.status,
+		Object.fromEntries(response.headers),
+	);
+	if (!response.body) {
+		res.end();
+		return;
+	}
+	// Event streams stay open, so send the headers straight away
+	res.flushHeaders();
+	try {
+		await pipeline(
+			Readable.fromWeb(
+				response.body as Parameters<typeof Readable.fromWeb>[0],
+			),
+			res,
+		);
+	} catch {
+		// The client went away; the stream has been cancelled
+	}
+}
+
+// IPv6 addresses in URLs and Host headers are in brackets
+function bracket(host: string): string {
+	return host.includes(':') && !host.startsWith('[')
+		? `[${host}]`
+		: host;
+}
+
+// Serve the MCP server over Streamable HTTP at /mcp, with a health
+// check at /health that needs no token. Resolves once listening with
+// a function that stops the server.
+export async function start_http_server(
+	server: McpServer<any>,
+	config: HttpConfig,
+	info: { name: string; version: string },
+): Promise<{ url: string; close: () => Promise<void> }> {
+	const transport = new HttpTransport(server, {
+		path: MCP_PATH,
+		...(config.allowedOrigins.length > 0 && {
+			cors: { origin: config.allowedOrigins },
+		}),
+	});
+	const allowed_hosts = new Set([
+		...LOOPBACK_HOSTS,
+		...(WILDCARD_HOSTS.includes(config.host)
+			? []
+			: [host_name(bracket(config.host))]),
+		...config.allowedHosts.map(host_name),
+	]);
+	const allowed_origins = new Set(config.allowedOrigins);
+
+	const handle = async (req: IncomingMessage) => {
+		const url = new URL(req.url ?? '/', 'http://localhost');
+		const { pathname } = url;
+
+		if (pathname === HEALTH_PATH) {
+			return json_response(200, { status: 'ok', ...info });
+		}
+		const refused = check_request_origin(
+			req,
+			allowed_hosts,
+			allowed_origins,
+		);
+		if (refused) {
+			return json_response(403, {
+				error: 'forbidden',
+				message: refused,
+			});
+		}
+		// Browsers send CORS preflights without credentials
+		if (
+			config.token &&
+			req.method !== 'OPTIONS' &&
+			!token_matches(req.headers.authorization ?? null, config.token)
+		) {
+			return json_response(
+				401,
+				{ error: 'unauthorized', message: 'Invalid bearer token' },
+				{ 'WWW-Authenticate': 'Bearer' },
+			);
+		}
+
+		let request: Request;
+		try {
+			request = await to_request(req, url);
+		} catch (error) {
+			if (!(error instanceof BodyTooLargeError)) throw error;
+			return json_response(
+				413,
+				{ error: 'payload_too_large', message: error.message },
+				{ Connection: 'close' },
+			);
+		}
+		return (
+			(await transport.respond(request)) ??
+			json_response(404, {
+				error: 'not_found',
+				message: `No endpoint at ${pathname}`,
+			})
+		);
+	};
+
+	const http_server: Server = createServer(async (req, res) => {
+		try {
+			await send_response(res, await handle(req));
+		} catch (error) {
+			if (res.headersSent) {
+				res.destroy();
+				return;
+			}
+			await send_response(
+				res,
+				json_response(500, {
+					error: 'internal_error',
+					message:
+						error instanceof Error ? error.message : 'Unknown error',
+				}),
+			);
+		}
+	});
+
+	await new Promise<void>((resolve, reject) => {
+		http_server.once('error', reject);
+		http_server.listen(config.port, config.host, () => {
+			http_server.off('error', reject);
+			resolve();
+		});
+	});
+
+	const address = http_server.address();
+	const port =
+		typeof address === 'object' && address
+			? address.port
+			: config.port;
+	const host = bracket(config.host);
+
+	return {
+		url: `http://${host}:${port}${MCP_PATH}`,
+		// Stop accepting connections and wait for requests in flight.
+		// Event streams never finish on their own, so whatever is still
+		// open after the grace period is closed.
+		close: () =>
+			new Promise<void>((resolve) => {
+				const timer = setTimeout(
+					() => http_server.closeAllConnections(),
+					SHUTDOWN_GRACE_MS,
+				);
+				http_server.close(() => {
+					clearTimeout(timer);
+					resolve();
+				});
+				http_server.closeIdleConnections();
+			}),
+	};
+}
@@ -6,9 +6,23 @@ import { readFileSync } from 'fs';
 import { dirname, join } from 'path';
 import { McpServer } from 'tmcp';
 import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
 import * as v from 'valibot';
+import { is_command, run_command } from './cli.js';
 import { DatabaseManager } from './db/client.js';
 import { get_database_config } from './db/config.js';
+import { NotFoundError } from './db/errors.js';
+import { get_http_config, start_http_server } from './http.js';
+import {
+	create_tool_registrar,
+	get_tool_policy,
+	ToolRegistrar,
+} from './policy.js';
+import {
+	error_payload,
+	json_result,
+	text_result,
+} from './results.js';
 import { Relation } from './types/index.js';
 
 // Get version from package.json
@@ -20,6 +34,8 @@ const package_json = JSON.parse(
 const { name, version } = package_json;
 
 // Define schemas
+const NamespaceSchema = v.optional(v.string());
+
 const CreateEntitiesSchema = v.object({
 	entities: v.array(
 		v.object({
@@ -28,77 +44,733 @@ const CreateEntitiesSchema = v.object({
 			observations: v.array(v.string()),
 		}),
 	),
+	mode: v.optional(v.picklist(['replace', 'append'])),
+	namespace: NamespaceSchema,
+});
+
+const AddObservationsSchema = v.object({
+	observations: v.array(
+		v.object({
+			entityName: v.string(),
+			contents: v.array(v.string()),
+		}),
+	),
+	namespace: NamespaceSchema,
+});
+
+const DeleteObservationsSchema = v.object({
+	deletions: v.array(
+		v.object({
+			entityName: v.string(),
+			observationIds: v.optional(v.array(v.number())),
+			contents: v.optional(v.array(v.string())),
+		}),
+	),
+	namespace: NamespaceSchema,
 });
 
+const EntitySortSchema = v.picklist([
+	'recent',
+	'alphabetical',
+	'most-connected',
+]);
+
 const SearchNodesSchema = v.object({
 	query: v.string(),
 	limit: v.optional(v.number()),
+	cursor: v.optional(v.string()),
+	detailed: v.optional(v.boolean()),
+	namespace: NamespaceSchema,
+});
+
+const StringOrListSchema = v.union([v.string(), v.array(v.string())]);
+
+const RelationFilterSchema = v.object({
+	type: v.optional(v.string()),
+	target: v.optional(v.string()),
+	source: v.optional(v.string()),
+	direction: v.optional(v.picklist(['in', 'out', 'both'])),
+});
+
+const SearchAdvancedSchema = v.object({
+	entityType: v.optional(StringOrListSchema),
+	namePattern: v.optional(v.string()),
+	observations: v.optional(
+		v.object({
+			contains: v.optional(StringOrListSchema),
+			notContains: v.optional(StringOrListSchema),
+		}),
+	),
+	hasRelation: v.optional(RelationFilterSchema),
+	lacksRelation: v.optional(RelationFilterSchema),
+	createdAfter: v.optional(v.string()),
+	createdBefore: v.optional(v.string()),
+	limit: v.optional(v.number()),
+	cursor: v.optional(v.string()),
+	sort: v.optional(EntitySortSchema),
+	detailed: v.optional(v.boolean()),
+	namespace: NamespaceSchema,
 });
 
+const ReadGraphSchema = v.object({
+	limit: v.optional(v.number()),
+	cursor: v.optional(v.string()),
+	sort: v.optional(EntitySortSchema),
+	entityType: v.optional(StringOrListSchema),
+	detailed: v.optional(v.boolean()),
+	namespace: NamespaceSchema,
+});
+
+const UpdateObservationSchema = v.object({
+	id: v.number(),
+	content: v.string(),
+	namespace: NamespaceSchema,
+});
+
+const RelationStrengthSchema = v.pipe(
+	v.number(),
+	v.minValue(0),
+	v.maxValue(1),
+);
+
 const CreateRelationsSchema = v.object({
 	relations: v.array(
 		v.object({
 			source: v.string(),
 			target: v.string(),
 			type: v.string(),
+			description: v.optional(v.string()),
+			strength: v.optional(RelationStrengthSchema),
+			tags: v.optional(v.array(v.string())),
+			properties: v.optional(v.record(v.string(), v.unknown())),
+		}),
+	),
+	autoCreateEntities: v.optional(
+		v.object({
+			entityType: v.string(),
 		}),
 	),
+	atomic: v.optional(v.boolean()),
+	namespace: NamespaceSchema,
+});
+
+const UpdateRelationSchema = v.object({
+	source: v.string(),
+	target: v.string(),
+	type: v.string(),
+	description: v.optional(v.nullable(v.string())),
+	strength: v.optional(v.nullable(RelationStrengthSchema)),
+	tags: v.optional(v.nullable(v.array(v.string()))),
+	properties: v.optional(
+		v.nullable(v.record(v.string(), v.unknown())),
+	),
+	namespace: NamespaceSchema,
 });
 
 const DeleteEntitySchema = v.object({
 	name: v.string(),
+	namespace: NamespaceSchema,
+});
+
+const MergeEntitiesSchema = v.object({
+	primary: v.string(),
+	duplicates: v.array(v.string()),
+	strategy: v.optional(v.picklist(['keep_primary', 'combine'])),
+	namespace: NamespaceSchema,
+});
+
+const RenameEntitySchema = v.object({
+	oldName: v.string(),
+	newName: v.string(),
+	merge: v.optional(v.boolean()),
+	namespace: NamespaceSchema,
 });
 
 const DeleteRelationSchema = v.object({
 	source: v.string(),
 	target: v.string(),
 	type: v.string(),
+	namespace: NamespaceSchema,
+});
+
+const RelationDirectionSchema = v.picklist(['in', 'out', 'both']);
+
+const FindPathSchema = v.object({
+	from: v.string(),
+	to: v.string(),
+	maxDepth: v.optional(v.number()),
+	relationTypes: v.optional(v.array(v.string())),
+	direction: v.optional(RelationDirectionSchema),
+	limit: v.optional(v.number()),
+	namespace: NamespaceSchema,
+});
+
+const GetEntityHistorySchema = v.object({
+	name: v.string(),
+	namespace: NamespaceSchema,
+});
+
+const RestoreEntityVersionSchema = v.object({
+	name: v.string(),
+	version: v.number(),
+	namespace: NamespaceSchema,
+});
+
+const DeleteNamespaceSchema = v.object({
+	namespace: v.string(),
+});
+
+const MemoryStatsSchema = v.object({
+	limit: v.optional(v.number()),
+	period: v.optional(v.picklist(['day', 'week', 'month'])),
+	namespace: NamespaceSchema,
+});
+
+const CheckIntegritySchema = v.object({
+	repair: v.optional(v.boolean()),
+	limit: v.optional(v.number()),
+	namespace: NamespaceSchema,
+});
+
+const RegisterTypesSchema = v.object({
+	entityTypes: v.optional(
+		v.array(
+			v.object({
+				name: v.string(),
+				description: v.optional(v.string()),
+			}),
+		),
+	),
+	relationTypes: v.optional(
+		v.array(
+			v.object({
+				name: v.string(),
+				description: v.optional(v.string()),
+				sourceTypes: v.optional(v.array(v.string())),
+				targetTypes: v.optional(v.array(v.string())),
+				symmetric: v.optional(v.boolean()),
+				inverse: v.optional(v.string()),
+			}),
+		),
+	),
+	namespace: NamespaceSchema,
+});
+
+const ListTypesSchema = v.object({
+	namespace: NamespaceSchema,
+});
+
+const DescribeTypeSchema = v.object({
+	name: v.string(),
+	kind: v.optional(v.picklist(['entity', 'relation'])),
+	namespace: NamespaceSchema,
+});
+
+const GraphFormatSchema = v.picklist(['json', 'jsonl']);
+
+const ExportGraphSchema = v.object({
+	format: v.optional(GraphFormatSchema),
+	namespace: NamespaceSchema,
+});
+
+const ImportGraphSchema = v.object({
+	data: v.string(),
+	format: v.optional(GraphFormatSchema),
+	strategy: v.optional(
+		v.picklist(['replace', 'merge', 'skip_existing']),
+	),
+	namespace: NamespaceSchema,
+});
+
+const RenderGraphSchema = v.object({
+	format: v.picklist(['graphml', 'dot', 'mermaid']),
+	query: v.optional(v.string()),
+	limit: v.optional(v.number()),
+	entity: v.optional(v.string()),
+	depth: v.optional(v.number()),
+	relationTypes: v.optional(v.array(v.string())),
+	direction: v.optional(RelationDirectionSchema),
+	maxNodes: v.optional(v.number()),
+	namespace: NamespaceSchema,
 });
 
 const GetEntityWithRelationsSchema = v.object({
 	name: v.string(),
+	detailed: v.optional(v.boolean()),
+	depth: v.optional(v.number()),
+	relationTypes: v.optional(v.array(v.string())),
+	direction: v.optional(RelationDirectionSchema),
+	maxNodes: v.optional(v.number()),
+	namespace: NamespaceSchema,
 });
 
-function setupTools(server: McpServer<any>, db: DatabaseManager) {
+const RecallContextPromptSchema = v.object({
+	topic: v.string(),
+	namespace: NamespaceSchema,
+});
+
+const SummariseEntityPromptSchema = v.object({
+	name: v.string(),
+	namespace: NamespaceSchema,
+});
+
+const RecordSessionLearningsPromptSchema = v.object({
+	focus: v.optional(v.string()),
+	namespace: NamespaceSchema,
+});
+
+const MemoryCleanupPromptSchema = v.object({
+	namespace: NamespaceSchema,
+});
+
+const ENTITIES_URI = 'memory://entities';
+
+function type_uri(entity_type: string): string {
+	return `memory://types/${encodeURIComponent(entity_type)}`;
+}
+
+function json_resource(uri: string, value: unknown) {
+	return {
+		contents: [
+			{
+				uri,
+				mimeType: 'application/json',
+				text: JSON.stringify(value, null, 2),
+			},
+		],
+	};
+}
+
+// A resource that cannot be read, such as an entity that does not
+// exist, holds the error in the shape tool error results use, instead
+// of failing the request
+async function read_json_resource(
+	uri: string,
+	read: () => Promise<unknown>,
+) {
+	try {
+		return json_resource(uri, await read());
+	} catch (error) {
+		return json_resource(uri, error_payload(error));
+	}
+}
+
+// Template variables can arrive as lists; resources take the first
+function first_value(value: string | string[]): string {
+	return Array.isArray(value) ? value[0] : value;
+}
+
+function decode_uri_value(value: string): string {
+	try {
+		return decodeURIComponent(value);
+	} catch {
+		return value;
+	}
+}
+
+// Resources expose the default namespace. Clients subscribe to
+// memory://entities or to a concrete entity or type URI and get
+// notifications/resources/updated when a write touches it.
+function setupResources(
+	server: McpServer<any>,
+	db: DatabaseManager,
+	namespace: string,
+) {
+	// Every entity, in name order, fetched a page at a time
+	const read_entities = async (entity_type?: string) => {
+		const entities = [];
+		let cursor: string | undefined;
+		do {
+			const page = await db.read_graph({
+				limit: 50,
+				cursor,
+				sort: 'alphabetical',
+				entityType: entity_type,
+			});
+			entities.push(...page.entities);
+			cursor = page.nextCursor;
+		} while (cursor);
+		return entities;
+	};
+
+	const read_entity = async (name: string) => {
+		const { entity, relations } = await db.get_entity_with_relations(
+			name,
+			true,
+		);
+		return { ...entity, relations };
+	};
+
+	const read_type = async (entity_type: string) => {
+		const entities = await read_entities(entity_type);
+		return { entityType: entity_type, entities };
+	};
+
+	// Resource: Entities
+	server.resource(
+		{
+			name: 'entities',
+			description:
+				'Every entity in the default namespace with its observations, in name order',
+			uri: ENTITIES_URI,
+			mimeType: 'application/json',
+		},
+		async (uri) => read_json_resource(uri, read_entities),
+	);
+
+	// Resource: Entity
+	server.template(
+		{
+			name: 'entity',
+			description:
+				'An entity with its observations (with ids and timestamps) and the relations touching it',
+			uri: 'memory://entity/{name}',
+			mimeType: 'application/json',
+			complete: {
+				name: async (query) => {
+					const values = await db.find_entity_names(query);
+					return { completion: { values } };
+				},
+			},
+		},
+		async (uri, { name }) =>
+			read_json_resource(uri, () => read_entity(first_value(name))),
+	);
+
+	// Resource: Entities by Type
+	server.template(
+		{
+			name: 'entity_type',
+			description:
+				'Every entity of one type with its observations, in name order',
+			uri: 'memory://types/{entityType}',
+			mimeType: 'application/json',
+			list: async () =>
+				(await db.list_entity_types()).map((summary) => ({
+					name: summary.entityType,
+					description: `${summary.entities} entities of type ${summary.entityType}`,
+					uri: type_uri(summary.entityType),
+					mimeType: 'application/json',
+				})),
+			complete: {
+				entityType: async (query) => {
+					const values = (await db.list_entity_types())
+						.map((summary) => summary.entityType)
+						.filter((entity_type) => entity_type.startsWith(query));
+					return { completion: { values } };
+				},
+			},
+		},
+		async (uri, { entityType }) =>
+			read_json_resource(uri, () =>
+				read_type(first_value(entityType)),
+			),
+	);
+
+	// Subscribed entity and type URIs, with the sessions subscribed to
+	// each (stdio has a single session without an id). The transport
+	// sends each update only to the sessions subscribed to it; this
+	// only saves looking at URIs nobody follows. tmcp only sends
+	// updates for registered URIs, so each is also registered once as
+	// a resource, hidden from resources/list, the first time it is
+	// subscribed to.
+	const subscriptions = new Map<string, Set<string>>();
+	const registered = new Set<string>();
+	server.on('subscription', ({ uri, action }) => {
+		const session = server.ctx.sessionId ?? '';
+		if (action === 'remove') {
+			const sessions = subscriptions.get(uri);
+			sessions?.delete(session);
+			if (sessions?.size === 0) subscriptions.delete(uri);
+			return;
+		}
+		const target = subscription_target(uri);
+		if (!target) return;
+		if (!subscriptions.has(uri)) subscriptions.set(uri, new Set());
+		subscriptions.get(uri)!.add(session);
+		if (registered.has(uri)) return;
+		registered.add(uri);
+		server.resource(
+			{
+				name: target.value,
+				description:
+					target.kind === 'entity'
+						? `Entity ${target.value}`
+						: `Entities of type ${target.value}`,
+				uri,
+				mimeType: 'application/json',
+				enabled: () => false,
+			},
+			async () =>
+				read_json_resource(uri, () =>
+					target.kind === 'entity'
+						? read_entity(target.value)
+						: read_type(target.value),
+				),
+		);
+	});
+
+	db.on_change((change) => {
+		if (change.namespace !== namespace) return;
+		const names = new Set(change.entities);
+		server.changed('resource', ENTITIES_URI);
+		for (const uri of subscriptions.keys()) {
+			const target = subscription_target(uri)!;
+			// A write can move entities between types, so every type
+			// resource may have changed
+			if (target.kind === 'types' || names.has(target.value)) {
+				server.changed('resource', uri);
+			}
+		}
+	});
+}
+
+// The entity name or type an entity or type URI shows
+function subscription_target(
+	uri: string,
+): { kind: 'entity' | 'types'; value: string } | undefined {
+	const match = /^memory:\/\/(entity|types)\/(.+)$/.exec(uri);
+	if (!match) return undefined;
+	return {
+		kind: match[1] as 'entity' | 'types',
+		value: decode_uri_value(match[2]),
+	};
+}
+
+function prompt_message(description: string, text: string) {
+	return {
+		description,
+		messages: [
+			{
+				role: 'user' as const,
+				content: { type: 'text' as const, text },
+			},
+		],
+	};
+}
+
+// Prompts that ask the model to write to memory are hidden from
+// read-only servers
+function setupPrompts(
+	server: McpServer<any>,
+	db: DatabaseManager,
+	read_only: boolean,
+) {
+	// Entity names starting with what was typed so far
+	const complete_name = async (
+		query: string,
+		context?: { arguments?: Record<string, string> },
+	) => ({
+		completion: {
+			values: await db.find_entity_names(
+				query,
+				10,
+				context?.arguments?.namespace || undefined,
+			),
+		},
+	});
+
+	// Prompt: Recall Context
+	server.prompt<typeof RecallContextPromptSchema>(
+		{
+			name: 'recall_context',
+			description:
+				'Search memory for a topic and start from what is already known about it',
+			schema: RecallContextPromptSchema,
+			complete: { topic: complete_name },
+		},
+		async ({ topic, namespace }) => {
+			const result = await db.search_nodes(
+				topic,
+				{ limit: 10 },
+				false,
+				namespace || undefined,
+			);
+			const found =
+				result.entities.length === 0
+					? `Memory has nothing on "${topic}" yet.`
+					: `Memory search results for "${topic}" (${result.entities.length} of ${result.totalCount} matching entities):\n\n${JSON.stringify(result, null, 2)}`;
+			return prompt_message(
+				`Memory recall for ${topic}`,
+				`${found}\n\nUse this as background for the task ahead. Treat it as what was recorded earlier, not as verified fact. Call get_entity_with_relations or search_nodes if you need more detail, and record anything new you learn with add_observations.`,
+			);
+		},
+	);
+
+	// Prompt: Summarise Entity
+	server.prompt<typeof SummariseEntityPromptSchema>(
+		{
+			name: 'summarise_entity',
+			description:
+				'Summarise everything memory holds about one entity, with its relations',
+			schema: SummariseEntityPromptSchema,
+			complete: { name: complete_name },
+		},
+		async ({ name, namespace }) => {
+			let result;
+			try {
+				result = await db.get_entity_with_relations(
+					name,
+					true,
+					{},
+					namespace || undefined,
+				);
+			} catch (error) {
+				if (!(error instanceof NotFoundError)) throw error;
+				return prompt_message(
+					`No entity named ${name}`,
+					`Memory holds no entity named "${name}". Tell the user so, and offer to look for similar entities with search_nodes.`,
+				);
+			}
+			return prompt_message(
+				`Summary of ${name}`,
+				`Here is what memory holds about "${name}", with its observations and the entities directly related to it:\n\n${JSON.stringify(result, null, 2)}\n\nWrite a concise summary of ${name}: what it is, the key facts, and how it relates to other entities. Point out observations that contradict each other or look out of date.`,
+			);
+		},
+	);
+
+	// Prompt: Record Session Learnings
+	server.prompt<typeof RecordSessionLearningsPromptSchema>(
+		{
+			name: 'record_session_learnings',
+			description:
+				'Save what was learned in this conversation to memory as entities, observations and relations',
+			schema: RecordSessionLearningsPromptSchema,
+			enabled: () => !read_only,
+		},
+		async ({ focus, namespace }) => {
+			const target = namespace
+				? `the "${namespace}" namespace`
+				: 'memory';
+			const scope = focus ? ` Concentrate on ${focus}.` : '';
+			return prompt_message(
+				'Record session learnings',
+				[
+					`Review this conversation and record what is worth remembering in ${target}.${scope}`,
+					'',
+					'- Keep durable facts: decisions and their reasons, preferences, conventions, people, projects and how they relate. Skip passing details and anything that will be stale tomorrow.',
+					'- Before creating an entity, call search_nodes to check whether it already exists, and add to the existing entity instead of creating a near-duplicate.',
+					'- Reuse the entity and relation types listed by list_types rather than inventing near-synonyms.',
+					'- Use add_observations for new facts about existing entities, create_entities for new ones, and create_relations to link them. Write each observation as one self-contained fact.',
+					'- If something recorded earlier turned out to be wrong, fix it with update_observation or delete_observations rather than adding a contradicting observation.',
+					'',
+					'Finish with a short list of what you recorded.',
+				].join('\n'),
+			);
+		},
+	);
+
+	// Prompt: Memory Cleanup
+	server.prompt<typeof MemoryCleanupPromptSchema>(
+		{
+			name: 'memory_cleanup',
+			description:
+				'Review likely duplicate and orphan entities and tidy up memory',
+			schema: MemoryCleanupPromptSchema,
+			enabled: () => !read_only,
+		},
+		async ({ namespace }) => {
+			const candidates = await db.find_cleanup_candidates(
+				50,
+				namespace || undefined,
+			);
+			return prompt_message(
+				'Memory cleanup',
+				[
+					'Here are entities in memory that may need tidying up.',
+					'',
+					'Likely duplicates (names that differ only in case, spacing or punctuation):',
+					JSON.stringify(candidates.duplicates, null, 2),
+					'',
+					`Orphans (entities without relations, ${candidates.orphans.length} of ${candidates.totalOrphans} shown):`,
+					JSON.stringify(candidates.orphans, null, 2),
+					'',
+					'Review them with get_entity_with_relations. Merge real duplicates with merge_entities, link orphans to related entities with create_relations, and delete entities that are no longer useful with delete_entity. Propose the changes and ask before deleting or merging anything.',
+				].join('\n'),
+			);
+		},
+	);
+}
+
+function setupTools(
+	server: Pick<ToolRegistrar, 'tool'>,
+	db: DatabaseManager,
+) {
 	// Tool: Create Entities
 	server.tool<typeof CreateEntitiesSchema>(
 		{
 			name: 'create_entities',
-			description: 'Create or update entities with observations',
+			description:
+				'Create or update entities with observations. By default (mode "append") new observations are added to existing entities and duplicates are skipped; mode "replace" deletes existing observations first.',
 			schema: CreateEntitiesSchema,
 		},
-		async ({ entities }) => {
-			try {
-				await db.create_entities(entities);
-				return {
-					content: [
-						{
-							type: 'text' as const,
-							text: `Successfully processed ${entities.length} entities (created new or updated existing)`,
-						},
-					],
-				};
-			} catch (error) {
-				return {
-					content: [
-						{
-							type: 'text' as const,
-							text: JSON.stringify(
-								{
-									error: 'internal_error',
-									message:
-										error instanceof Error
-											? error.message
-											: 'Unknown error',
-								},
-								null,
-								2,
-							),
-						},
-					],
-					isError: true,
-				};
-			}
+		async ({ entities, mode, namespace }) => {
+			const warnings = await db.create_entities(
+				entities,
+				mode,
+				namespace,
+			);
+			return text_result(
+				[
+					`Successfully processed ${entities.length} entities (created new or updated existing)`,
+					...warnings.map(
+						(warning) =>
+							`Warning: entities[${warning.index}]: ${warning.message}`,
+					),
+				].join('\n'),
+			);
+		},
+	);
+
+	// Tool: Add Observations
+	server.tool<typeof AddObservationsSchema>(
+		{
+			name: 'add_observations',
+			description:
+				'Append observations to existing entities without touching the ones already stored. Exact duplicates are skipped. Reports per entity what was added or skipped, and whether the entity was found.',
+			schema: AddObservationsSchema,
+		},
+		async ({ observations, namespace }) => {
+			const result = await db.add_observations(
+				observations,
+				namespace,
+			);
+			return json_result(result);
+		},
+	);
+
+	// Tool: Delete Observations
+	server.tool<typeof DeleteObservationsSchema>(
+		{
+			name: 'delete_observations',
+			description:
+				'Delete specific observations from entities by observation id or exact content. Reports per entity what was deleted and which ids or contents were not found.',
+			schema: DeleteObservationsSchema,
+		},
+		async ({ deletions, namespace }) => {
+			const result = await db.delete_observations(
+				deletions,
+				namespace,
+			);
+			return json_result(result);
+		},
+	);
+
+	// Tool: Update Observation
+	server.tool<typeof UpdateObservationSchema>(
+		{
+			name: 'update_observation',
+			description:
+				'Edit the content of one observation in place, by id. Use detailed results from search_nodes, read_graph or get_entity_with_relations to find observation ids.',
+			schema: UpdateObservationSchema,
+		},
+		async ({ id, content, namespace }) => {
+			const result = await db.update_observation(
+				id,
+				content,
+				namespace,
+			);
+			return json_result(result);
 		},
 	);
 
@@ -107,82 +779,64 @@ function setupTools(server: McpServer<any>, db: DatabaseManager) {
 		{
 			name: 'search_nodes',
 			description:
-				'Search entities and relations by text query. Returns up to limit results (default 10, max 50) ordered by relevance.',
+				'Search entities and relations with a full-text query. Supports "exact phrases", prefix* matching and AND/OR/NOT. Returns up to limit results (default 10, max 50) ranked by BM25 relevance, each with a highlighted snippet of its best matching observation. totalCount gives the number of matches; pass nextCursor back as cursor to get the next page, which fails once memory has changed since, as relevance then shifts. namespace "all" searches every namespace. Set detailed to get observations as { id, content, createdAt, updatedAt }.',
 			schema: SearchNodesSchema,
+			annotations: { readOnlyHint: true },
 		},
-		async ({ query, limit }) => {
-			try {
-				const result = await db.search_nodes(query, limit);
-				return {
-					content: [
-						{
-							type: 'text' as const,
-							text: JSON.stringify(result, null, 2),
-						},
-					],
-				};
-			} catch (error) {
-				return {
-					content: [
-						{
-							type: 'text' as const,
-							text: JSON.stringify(
-								{
-									error: 'internal_error',
-									message:
-										error instanceof Error
-											? error.message
-											: 'Unknown error',
-								},
-								null,
-								2,
-							),
-						},
-					],
-					isError: true,
-				};
-			}
+		async ({ query, limit, cursor, detailed, namespace }) => {
+			const result = await db.search_nodes(
+				query,
+				{ limit, cursor },
+				detailed,
+				namespace,
+			);
+			return json_result(result);
+		},
+	);
+
+	// Tool: Search Advanced
+	server.tool<typeof SearchAdvancedSchema>(
+		{
+			name: 'search_advanced',
+			description:
+				'Find entities matching structured filters, all of which must hold: entityType (one or a list), namePattern (* and ? wildcards), observations.contains / notContains (case-insensitive substrings, one or a list), hasRelation / lacksRelation ({ type, target or source, direction }), createdAfter / createdBefore (ISO dates). Returns limit entities (default 10, max 50) with their relations, sorted as in read_graph, with totalCount and a nextCursor for the next page. namespace "all" searches every namespace. Set detailed to get observations as { id, content, createdAt, updatedAt }.',
+			schema: SearchAdvancedSchema,
+			annotations: { readOnlyHint: true },
+		},
+		async ({
+			limit,
+			cursor,
+			sort,
+			detailed,
+			namespace,
+			...filter
+		}) => {
+			const result = await db.search_advanced(
+				filter,
+				{ limit, cursor, sort },
+				detailed,
+				namespace,
+			);
+			return json_result(result);
 		},
 	);
 
 	// Tool: Read Graph
-	server.tool(
+	server.tool<typeof ReadGraphSchema>(
 		{
 			name: 'read_graph',
-			description: 'Get recent entities and their relations',
+			description:
+				'List entities and their relations, limit at a time (default 10, max 50), optionally only of entityType (one or a list). sort is "recent" (default), "alphabetical" or "most-connected". totalCount gives the number of entities; pass nextCursor back as cursor to get the next page. namespace "all" reads every namespace. Set detailed to get observations as { id, content, createdAt, updatedAt }.',
+			schema: ReadGraphSchema,
+			annotations: { readOnlyHint: true },
 		},
-		async () => {
-			try {
-				const result = await db.read_graph();
-				return {
-					content: [
-						{
-							type: 'text' as const,
-							text: JSON.stringify(result, null, 2),
-						},
-					],
-				};
-			} catch (error) {
-				return {
-					content: [
-						{
-							type: 'text' as const,
-							text: JSON.stringify(
-								{
-									error: 'internal_error',
-									message:
-										error instanceof Error
-											? error.message
-											: 'Unknown error',
-								},
-								null,
-								2,
-							),
-						},
-					],
-					isError: true,
-				};
-			}
+		async ({ detailed, namespace, ...options }) => {
+			const result = await db.read_graph(
+				options,
+				detailed,
+				namespace,
+			);
+			return json_result(result);
 		},
 	);
 
@@ -190,47 +844,46 @@ function setupTools(server: McpServer<any>, db: DatabaseManager) {
 	server.tool<typeof CreateRelationsSchema>(
 		{
 			name: 'create_relations',
-			description: 'Create relations between entities',
+			description:
+				'Create relations between entities, optionally with a description, a strength between 0 and 1, tags and a properties object. Returns an outcome per relation: "created", "already_exists" (left unchanged, also when a checked ontology makes the type symmetric or gives it an inverse and the reverse relation is stored), "missing_source" or "missing_target", with the missing entity names, or "rejected", with a message, when a strict ontology does not allow it. Relations to missing entities are skipped unless autoCreateEntities ({ entityType }) is given, which creates the missing entities with that type and no observations. With atomic true, any relation to a missing entity or rejected by the ontology fails the whole call and nothing is created.',
 			schema: CreateRelationsSchema,
 		},
-		async ({ relations }) => {
-			try {
-				// Convert to internal Relation type
-				const internalRelations: Relation[] = relations.map((r) => ({
-					from: r.source,
-					to: r.target,
-					relationType: r.type,
-				}));
-				await db.create_relations(internalRelations);
-				return {
-					content: [
-						{
-							type: 'text' as const,
-							text: `Created ${relations.length} relations`,
-						},
-					],
-				};
-			} catch (error) {
-				return {
-					content: [
-						{
-							type: 'text' as const,
-							text: JSON.stringify(
-								{
-									error: 'internal_error',
-									message:
-										error instanceof Error
-											? error.message
-											: 'Unknown error',
-								},
-								null,
-								2,
-							),
-						},
-					],
-					isError: true,
-				};
-			}
+		async ({ relations, autoCreateEntities, atomic, namespace }) => {
+			// Convert to internal Relation type
+			const internalRelations: Relation[] = relations.map(
+				({ source, target, type, ...properties }) => ({
+					from: source,
+					to: target,
+					relationType: type,
+					...properties,
+				}),
+			);
+			const result = await db.create_relations(
+				internalRelations,
+				{ autoCreateEntities, atomic },
+				namespace,
+			);
+			return json_result(result);
+		},
+	);
+
+	// Tool: Update Relation
+	server.tool<typeof UpdateRelationSchema>(
+		{
+			name: 'update_relation',
+			description:
+				'Update the description, strength, tags or properties of an existing relation. Omitted fields are kept; null clears a field.',
+			schema: UpdateRelationSchema,
+		},
+		async ({ source, target, type, namespace, ...updates }) => {
+			const result = await db.update_relation(
+				source,
+				target,
+				type,
+				updates,
+				namespace,
+			);
+			return json_result(result);
 		},
 	);
 
@@ -241,38 +894,49 @@ function setupTools(server: McpServer<any>, db: DatabaseManager) {
 			description: 'Delete entity and associated data',
 			schema: DeleteEntitySchema,
 		},
-		async ({ name }) => {
-			try {
-				await db.delete_entity(name);
-				return {
-					content: [
-						{
-							type: 'text' as const,
-							text: `Successfully deleted entity "${name}" and its associated data`,
-						},
-					],
-				};
-			} catch (error) {
-				return {
-					content: [
-						{
-							type: 'text' as const,
-							text: JSON.stringify(
-								{
-									error: 'internal_error',
-									message:
-										error instanceof Error
-											? error.message
-											: 'Unknown error',
-								},
-								null,
-								2,
-							),
-						},
-					],
-					isError: true,
-				};
-			}
+		async ({ name, namespace }) => {
+			await db.delete_entity(name, namespace);
+			return text_result(
+				`Successfully deleted entity "${name}" and its associated data`,
+			);
+		},
+	);
+
+	// Tool: Merge Entities
+	server.tool<typeof MergeEntitiesSchema>(
+		{
+			name: 'merge_entities',
+			description:
+				'Consolidate duplicate entities (e.g. "PostgreSQL", "postgres", "PostgresDB") into a primary entity. Observations move to the primary unless it already has them, relations are re-pointed to the primary, and the duplicates are deleted, all in one transaction. Re-pointed relations that would become self-loops or already exist are dropped; with strategy "combine" (default "keep_primary") a dropped relation fills in the unset description, strength, tags and properties of the one kept. Returns the merged entity and a summary of what moved.',
+			schema: MergeEntitiesSchema,
+		},
+		async ({ primary, duplicates, strategy, namespace }) => {
+			const result = await db.merge_entities(
+				primary,
+				duplicates,
+				strategy,
+				namespace,
+			);
+			return json_result(result);
+		},
+	);
+
+	// Tool: Rename Entity
+	server.tool<typeof RenameEntitySchema>(
+		{
+			name: 'rename_entity',
+			description:
+				'Rename an entity, updating its observations, the relations to and from it and its history in one transaction. The entity keeps its creation time. Fails if the new name is taken, unless merge is set, in which case the entity is merged into the existing one as with merge_entities (strategy "combine").',
+			schema: RenameEntitySchema,
+		},
+		async ({ oldName, newName, merge, namespace }) => {
+			const result = await db.rename_entity(
+				oldName,
+				newName,
+				merge,
+				namespace,
+			);
+			return json_result(result);
 		},
 	);
 
@@ -283,38 +947,11 @@ function setupTools(server: McpServer<any>, db: DatabaseManager) {
 			description: 'Delete relation between entities',
 			schema: DeleteRelationSchema,
 		},
-		async ({ source, target, type }) => {
-			try {
-				await db.delete_relation(source, target, type);
-				return {
-					content: [
-						{
-							type: 'text' as const,
-							text: `Successfully deleted relation: ${source} -> ${target} (${type})`,
-						},
-					],
-				};
-			} catch (error) {
-				return {
-					content: [
-						{
-							type: 'text' as const,
-							text: JSON.stringify(
-								{
-									error: 'internal_error',
-									message:
-										error instanceof Error
-											? error.message
-											: 'Unknown error',
-								},
-								null,
-								2,
-							),
-						},
-					],
-					isError: true,
-				};
-			}
+		async ({ source, target, type, namespace }) => {
+			await db.delete_relation(source, target, type, namespace);
+			return text_result(
+				`Successfully deleted relation: ${source} -> ${target} (${type})`,
+			);
 		},
 	);
 
@@ -323,49 +960,251 @@ function setupTools(server: McpServer<any>, db: DatabaseManager) {
 		{
 			name: 'get_entity_with_relations',
 			description:
-				'Get an entity along with all its relations and related entities. Useful for exploring the knowledge graph around a specific entity.',
+				'Get an entity along with its neighbourhood: related entities, each with its hop distance, and the relations between them. depth sets how many hops to expand (default 1, max 5); relationTypes restricts which relations are followed; direction is "out", "in" or "both" (default); maxNodes caps the number of entities (default 50, max 200), with truncated set when the cap was hit. Set detailed to get observations as { id, content, createdAt, updatedAt }.',
 			schema: GetEntityWithRelationsSchema,
+			annotations: { readOnlyHint: true },
 		},
-		async ({ name }) => {
-			try {
-				const result = await db.get_entity_with_relations(name);
-				return {
-					content: [
-						{
-							type: 'text' as const,
-							text: JSON.stringify(result, null, 2),
-						},
-					],
-				};
-			} catch (error) {
-				return {
-					content: [
-						{
-							type: 'text' as const,
-							text: JSON.stringify(
-								{
-									error: 'internal_error',
-									message:
-										error instanceof Error
-											? error.message
-											: 'Unknown error',
-								},
-								null,
-								2,
-							),
-						},
-					],
-					isError: true,
-				};
-			}
+		async ({ name, detailed, namespace, ...options }) => {
+			const result = await db.get_entity_with_relations(
+				name,
+				detailed,
+				options,
+				namespace,
+			);
+			return json_result(result);
+		},
+	);
+
+	// Tool: Find Path
+	server.tool<typeof FindPathSchema>(
+		{
+			name: 'find_path',
+			description:
+				'Find how two entities are connected. Returns the shortest path, or the limit shortest paths (default 1, max 10), as ordered entity names and the relations joining them. maxDepth caps the number of hops (default 4, max 6); relationTypes restricts which relations are followed; direction is "out" (source to target), "in" (target to source) or "both" (default).',
+			schema: FindPathSchema,
+			annotations: { readOnlyHint: true },
+		},
+		async ({ from, to, namespace, ...options }) => {
+			const paths = await db.find_paths(from, to, options, namespace);
+			return json_result({ from, to, paths });
+		},
+	);
+
+	// Tool: Get Entity History
+	server.tool<typeof GetEntityHistorySchema>(
+		{
+			name: 'get_entity_history',
+			description:
+				'List the recorded versions of an entity, oldest first. Each version shows when and by which operation it changed, and the observations and outgoing relations added or removed since the previous version. Deleted entities keep their history.',
+			schema: GetEntityHistorySchema,
+			annotations: { readOnlyHint: true },
+		},
+		async ({ name, namespace }) => {
+			const result = await db.get_entity_history(name, namespace);
+			return json_result(result);
+		},
+	);
+
+	// Tool: Restore Entity Version
+	server.tool<typeof RestoreEntityVersionSchema>(
+		{
+			name: 'restore_entity_version',
+			description:
+				'Roll an entity back to a version from get_entity_history: its type, observations and outgoing relations. Works for deleted entities too. Relations whose target no longer exists are skipped and reported.',
+			schema: RestoreEntityVersionSchema,
+		},
+		async ({ name, version, namespace }) => {
+			const result = await db.restore_entity_version(
+				name,
+				version,
+				namespace,
+			);
+			return json_result(result);
+		},
+	);
+
+	// Tool: Export Graph
+	server.tool<typeof ExportGraphSchema>(
+		{
+			name: 'export_graph',
+			description:
+				'Export every entity, observation and relation of a namespace. format "json" (default) gives { entities, relations }; "jsonl" gives the memory.jsonl format of the reference server-memory server. To write the export to a file, use the export command.',
+			schema: ExportGraphSchema,
+			annotations: { readOnlyHint: true },
+		},
+		async ({ format, namespace }) => {
+			const data = await db.export_graph(format, namespace);
+			return text_result(data);
+		},
+	);
+
+	// Tool: Import Graph
+	server.tool<typeof ImportGraphSchema>(
+		{
+			name: 'import_graph',
+			description:
+				'Import a graph from export_graph or a server-memory memory.jsonl file, passed as data, in a single transaction. strategy "merge" (default) adds new observations and overwrites types and relation properties; "skip_existing" leaves existing entities and relations untouched; "replace" makes the namespace match the import exactly, deleting everything else. Reports created, updated, skipped and deleted counts.',
+			schema: ImportGraphSchema,
+		},
+		async ({ data, format, strategy, namespace }) => {
+			const result = await db.import_graph(
+				data,
+				{ format, strategy },
+				namespace,
+			);
+			return json_result(result);
+		},
+	);
+
+	// Tool: Render Graph
+	server.tool<typeof RenderGraphSchema>(
+		{
+			name: 'render_graph',
+			description:
+				'Render part of the graph as a diagram: format "graphml" (Gephi, yEd), "dot" (Graphviz) or "mermaid". Draws the results of a search with query (and limit), the neighbourhood of entity (with depth, relationTypes, direction and maxNodes as in get_entity_with_relations), or otherwise the whole graph. Entity types are coloured and relation types label the edges.',
+			schema: RenderGraphSchema,
+			annotations: { readOnlyHint: true },
+		},
+		async ({ namespace, ...options }) => {
+			const diagram = await db.render_graph(options, namespace);
+			return text_result(diagram);
+		},
+	);
+
+	// Tool: Memory Stats
+	server.tool<typeof MemoryStatsSchema>(
+		{
+			name: 'memory_stats',
+			description:
+				'Report the size and health of memory: counts of entities, observations and relations; breakdowns by entity type and relation type; the most connected entities; orphan entities without relations; entities with a single observation; database and WAL file size; and entities, observations and relations created per period ("day", "week" or "month", the default) over the last 12 periods. Entity lists hold up to limit entries (default 10, max 50). namespace "all" covers every namespace.',
+			schema: MemoryStatsSchema,
+			annotations: { readOnlyHint: true },
+		},
+		async ({ limit, period, namespace }) => {
+			const result = await db.get_stats({ limit, period }, namespace);
+			return json_result(result);
+		},
+	);
+
+	// Tool: Check Integrity
+	server.tool<typeof CheckIntegritySchema>(
+		{
+			name: 'check_integrity',
+			description:
+				'Check the database for problems: PRAGMA integrity_check and foreign_key_check over the whole database, then relations whose source or target entity is missing, observations of missing entities, observations repeated on one entity, and entities or relations with empty or whitespace-only names or types. Each kind of issue is reported with its count and up to limit examples (default 10, max 50); ok is true when nothing was found. With repair true, the issues are fixed in one transaction: dangling relations, orphan and duplicate observations (keeping the oldest copy), blank-typed relations and blank-named entities are deleted, and blank entity types become "unknown". Corruption found by integrity_check is never repaired. namespace "all" covers every namespace.',
+			schema: CheckIntegritySchema,
+		},
+		async ({ repair, limit, namespace }) => {
+			const result = await db.check_integrity(
+				{ repair, limit },
+				namespace,
+			);
+			return json_result(result);
+		},
+	);
+
+	// Tool: Register Types
+	server.tool<typeof RegisterTypesSchema>(
+		{
+			name: 'register_types',
+			description:
+				'Register entity types and relation types, or update ones already registered. A relation type may list the entity types allowed as its source (sourceTypes) and target (targetTypes), which must be registered, and may be symmetric or name its inverse, which is registered too, with source and target types swapped, if it is not yet. Once a namespace has registered types, create_entities and create_relations check new entity and relation types against them when the server runs with MEMORY_ONTOLOGY "warn" or "strict". Reports which types were created and which updated.',
+			schema: RegisterTypesSchema,
+		},
+		async ({ entityTypes, relationTypes, namespace }) => {
+			const result = await db.register_types(
+				entityTypes,
+				relationTypes,
+				namespace,
+			);
+			return json_result(result);
+		},
+	);
+
+	// Tool: List Types
+	server.tool<typeof ListTypesSchema>(
+		{
+			name: 'list_types',
+			description:
+				'List the registered entity types and relation types with their definitions and how many entities or relations use each, plus the types in use that are not registered, and the ontology mode ("off", "warn" or "strict"). Call before writing to reuse the existing vocabulary.',
+			schema: ListTypesSchema,
+			annotations: { readOnlyHint: true },
+		},
+		async ({ namespace }) => {
+			const result = await db.list_types(namespace);
+			return json_result(result);
+		},
+	);
+
+	// Tool: Describe Type
+	server.tool<typeof DescribeTypeSchema>(
+		{
+			name: 'describe_type',
+			description:
+				'Describe an entity type or relation type: its definition if registered, how many entities or relations use it with a few examples, the relation types that allow it as source or target (for entity types), and types whose names differ only in case or punctuation. kind ("entity" or "relation") picks between types of the same name.',
+			schema: DescribeTypeSchema,
+			annotations: { readOnlyHint: true },
+		},
+		async ({ name, kind, namespace }) => {
+			const result = await db.describe_type(name, kind, namespace);
+			return json_result(result);
+		},
+	);
+
+	// Tool: List Namespaces
+	server.tool(
+		{
+			name: 'list_namespaces',
+			description:
+				'List the namespaces that hold entities, with their entity, observation and relation counts',
+			annotations: { readOnlyHint: true },
+		},
+		async () => {
+			const result = await db.list_namespaces();
+			return json_result(result);
+		},
+	);
+
+	// Tool: Delete Namespace
+	server.tool<typeof DeleteNamespaceSchema>(
+		{
+			name: 'delete_namespace',
+			description:
+				'Delete every entity, observation and relation in a namespace. Entity history is kept, so entities can be brought back with restore_entity_version.',
+			schema: DeleteNamespaceSchema,
+		},
+		async ({ namespace }) => {
+			const deleted = await db.delete_namespace(namespace);
+			return json_result({ namespace, deleted });
 		},
 	);
 }
 
 // Start the server
 async function main() {
+	// Subcommands work on the database directly instead of serving it
+	if (is_command(process.argv[2])) {
+		process.exitCode = await run_command(process.argv.slice(2));
+		return;
+	}
+
+	const { values: flags } = parseArgs({
+		options: {
+			http: { type: 'boolean' },
+			host: { type: 'string' },
+			port: { type: 'string' },
+		},
+	});
+	const use_http =
+		flags.http || process.env.MEMORY_TRANSPORT === 'http';
+	const http_config = use_http ? get_http_config(flags) : undefined;
+
 	// Initialize database
-	const config = get_database_config();
+	const policy = get_tool_policy();
+	const config = {
+		...get_database_config(),
+		readOnly: policy.readOnly,
+	};
 	const db = await DatabaseManager.get_instance(config);
 
 	// Create tmcp server with Valibot adapter
@@ -381,22 +1220,62 @@ async function main() {
 			adapter,
 			capabilities: {
 				tools: { listChanged: true },
+				resources: { subscribe: true, listChanged: true },
+				prompts: { listChanged: true },
 			},
 		},
 	);
 
 	// Setup tool handlers
-	setupTools(server, db);
+	const tools = create_tool_registrar(server, policy);
+	setupTools(tools, db);
+	const unknown_tools = tools.unknown_tools();
+	if (unknown_tools.length > 0) {
+		console.error(
+			`Unknown tools in tool configuration: ${unknown_tools.join(', ')}`,
+		);
+	}
+	setupResources(server, db, config.defaultNamespace ?? 'default');
+	setupPrompts(server, db, policy.readOnly);
 
-	// Error handling and graceful shutdown
-	process.on('SIGINT', async () => {
-		await db?.close();
-		process.exit(0);
+	if (!http_config) {
+		// Error handling and graceful shutdown
+		process.on('SIGINT', async () => {
+			await db?.close();
+			process.exit(0);
+		});
+
+		const transport = new StdioTransport(server);
+		transport.listen();
+		console.error('SQLite Memory MCP server running on stdio');
+		return;
+	}
+
+	const http = await start_http_server(server, http_config, {
+		name,
+		version,
 	});
 
-	const transport = new StdioTransport(server);
-	transport.listen();
-	console.error('SQLite Memory MCP server running on stdio');
+	// Stop taking requests, let those in flight finish, then close the
+	// database
+	let stopping = false;
+	const shutdown = async () => {
+		if (stopping) return;
+		stopping = true;
+		console.error('Shutting down SQLite Memory MCP server');
+		await http.close();
+		await db.close();
+		process.exit(0);
+	};
+	process.on('SIGINT', shutdown);
+	process.on('SIGTERM', shutdown);
+
+	console.error(
+		`SQLite Memory MCP server running on ${http.url}${http_config.token ? ' (bearer token required)' : ''}`,
+	);
 }
 
-main().catch(console.error);
+main().catch((error) => {
+	console.error(error);
+	process.exit(1);
+});
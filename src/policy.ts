@@ -0,0 +1,159 @@
+import { readFileSync } from 'fs';
+import { McpServer } from 'tmcp';
+import { defineTool } from 'tmcp/tool';
+import * as v from 'valibot';
+import { MemoryError } from './db/errors.js';
+import { catch_tool_errors } from './results.js';
+
+// The options and handler server.tool takes for a tool whose
+// arguments follow TSchema
+type ToolDefinition<TSchema extends v.GenericSchema | undefined> =
+	Parameters<typeof defineTool<TSchema>>;
+
+// Which tools the server offers. Read-only servers only offer tools
+// annotated with readOnlyHint; enabledTools (when set) and
+// disabledTools narrow that further.
+export interface ToolPolicy {
+	readOnly: boolean;
+	enabledTools?: string[];
+	disabledTools: string[];
+}
+
+interface PolicyFile {
+	readOnly?: boolean;
+	enabledTools?: string[];
+	disabledTools?: string[];
+}
+
+function parse_list(value: string | undefined): string[] | undefined {
+	if (value === undefined) return undefined;
+	return value
+		.split(',')
+		.map((item) => item.trim())
+		.filter(Boolean);
+}
+
+function parse_flag(value: string | undefined): boolean | undefined {
+	if (value === undefined || value === '') return undefined;
+	return ['1', 'true', 'yes', 'on'].includes(value.toLowerCase());
+}
+
+function read_policy_file(path: string): PolicyFile {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(readFileSync(path, 'utf8'));
+	} catch (error) {
+		throw new Error(
+			`Failed to read config file ${path}: ${
+				error instanceof Error ? error.message : String(error)
+			}`,
+		);
+	}
+
+	const file = parsed as PolicyFile;
+	const is_list = (value: unknown) =>
+		value === undefined ||
+		(Array.isArray(value) &&
+			value.every((item) => typeof item === 'string'));
+	if (
+		typeof parsed !== 'object' ||
+		parsed === null ||
+		(file.readOnly !== undefined &&
+			typeof file.readOnly !== 'boolean') ||
+		!is_list(file.enabledTools) ||
+		!is_list(file.disabledTools)
+	) {
+		throw new Error(
+			`Invalid config file ${path}: expected { readOnly?: boolean, enabledTools?: string[], disabledTools?: string[] }`,
+		);
+	}
+	return file;
+}
+
+// Settings come from the JSON file named by MEMORY_CONFIG, with
+// MEMORY_READ_ONLY, MEMORY_ENABLED_TOOLS and MEMORY_DISABLED_TOOLS
+// (comma-separated names) taking precedence
+export function get_tool_policy(): ToolPolicy {
+	const file = process.env.MEMORY_CONFIG
+		? read_policy_file(process.env.MEMORY_CONFIG)
+		: {};
+
+	return {
+		readOnly:
+			parse_flag(process.env.MEMORY_READ_ONLY) ??
+			file.readOnly ??
+			false,
+		enabledTools:
+			parse_list(process.env.MEMORY_ENABLED_TOOLS) ??
+			file.enabledTools,
+		disabledTools:
+			parse_list(process.env.MEMORY_DISABLED_TOOLS) ??
+			file.disabledTools ??
+			[],
+	};
+}
+
+// Why a tool is unavailable under the policy, if it is
+function disabled_reason(
+	policy: ToolPolicy,
+	name: string,
+	read_only_tool: boolean,
+): string | undefined {
+	if (policy.readOnly && !read_only_tool) {
+		return 'the server is in read-only mode';
+	}
+	if (policy.enabledTools && !policy.enabledTools.includes(name)) {
+		return 'it is not in the enabled tool list';
+	}
+	if (policy.disabledTools.includes(name)) {
+		return 'it is in the disabled tool list';
+	}
+}
+
+// Registers tools on the server under the policy, with errors they
+// throw reported as error results. A disabled tool is still
+// registered, hidden from tools/list, so calling it anyway gets a
+// tool_disabled error rather than an unknown tool.
+export function create_tool_registrar(
+	server: McpServer<v.GenericSchema>,
+	policy: ToolPolicy,
+) {
+	const registered = new Set<string>();
+
+	const tool = <
+		TSchema extends v.GenericSchema | undefined = undefined,
+	>(
+		options: ToolDefinition<TSchema>[0],
+		execute: ToolDefinition<TSchema>[1],
+	) => {
+		registered.add(options.name);
+		const reason = disabled_reason(
+			policy,
+			options.name,
+			options.annotations?.readOnlyHint === true,
+		);
+		server.tool<TSchema>(
+			reason ? { ...options, enabled: () => false } : options,
+			catch_tool_errors(execute, () => {
+				if (reason) {
+					throw new MemoryError(
+						'tool_disabled',
+						`Tool ${options.name} is disabled because ${reason}`,
+						{ tool: options.name },
+					);
+				}
+			}),
+		);
+	};
+
+	// Names in the enabled and disabled lists that match no tool,
+	// likely typos
+	const unknown_tools = () =>
+		[...(policy.enabledTools ?? []), ...policy.disabledTools].filter(
+			(name) => !registered.has(name),
+		);
+
+	return { tool, unknown_tools };
+}
+
+export type ToolRegistrar = ReturnType<typeof create_tool_registrar>;
@@ -0,0 +1,58 @@
+import { to_memory_error } from './db/errors.js';
+
+// Tool results, and the single place tool errors are turned into them
+
+export function text_result(text: string) {
+	return { content: [{ type: 'text' as const, text }] };
+}
+
+export function json_result(value: unknown) {
+	return text_result(JSON.stringify(value, null, 2));
+}
+
+// A failed tool call. error holds a stable code for agents to branch
+// on; message is for people.
+export function error_result(
+	code: string,
+	message: string,
+	extra: Record<string, unknown> = {},
+) {
+	return {
+		...text_result(
+			JSON.stringify({ error: code, message, ...extra }, null, 2),
+		),
+		isError: true,
+	};
+}
+
+// What error results hold for an error: its code, message, details,
+// and whether the same call may succeed if retried
+export function error_payload(error: unknown) {
+	const typed = to_memory_error(error);
+	return {
+		error: typed.code,
+		message: typed.message,
+		...(Object.keys(typed.details).length > 0 && {
+			details: typed.details,
+		}),
+		retryable: typed.retryable,
+	};
+}
+
+// Wrap a tool so that whatever it throws, or check throws before it
+// runs, comes back as an error result. The wrapper keeps the tool's
+// type: an error result is a valid result for any tool.
+export function catch_tool_errors<
+	TExecute extends (...args: never[]) => unknown,
+>(execute: TExecute, check?: () => void): TExecute {
+	const wrapped = async (...args: Parameters<TExecute>) => {
+		try {
+			check?.();
+			return await execute(...args);
+		} catch (error) {
+			const { error: code, message, ...extra } = error_payload(error);
+			return error_result(code, message, extra);
+		}
+	};
+	return wrapped as TExecute;
+}
@@ -1,16 +1,530 @@
-export interface Entity {
+export interface Observation {
+	id: number;
+	content: string;
+	createdAt: string;
+	updatedAt: string;
+}
+
+export interface Entity<TObservation = string> {
+	// Only set on results that span namespaces
+	namespace?: string;
 	name: string;
 	entityType: string;
-	observations: string[];
+	observations: TObservation[];
+}
+
+// Entity with full observation records instead of plain strings
+export type DetailedEntity = Entity<Observation>;
+
+// Observation shape selected by a `detailed` flag
+export type ObservationView<TDetailed extends boolean> =
+	TDetailed extends true ? Observation : string;
+
+export interface RelationProperties {
+	description?: string;
+	// Confidence or importance between 0 and 1
+	strength?: number;
+	tags?: string[];
+	properties?: Record<string, unknown>;
+}
+
+export interface Relation extends RelationProperties {
+	// Only set on results that span namespaces
+	namespace?: string;
+	from: string;
+	to: string;
+	relationType: string;
+	createdAt?: string;
+}
+
+// Changes for update_relation: omitted fields are kept, null clears
+export type RelationPropertyUpdates = {
+	[K in keyof RelationProperties]?: RelationProperties[K] | null;
+};
+
+export interface SearchResult<
+	TObservation = string,
+> extends Entity<TObservation> {
+	// Highlighted excerpt of the best matching observation
+	snippet?: string;
+}
+
+// How create_entities treats observations of an existing entity:
+// "append" keeps them, "replace" deletes them first
+export type CreateEntitiesMode = 'replace' | 'append';
+
+export interface AddObservationsResult {
+	entityName: string;
+	entityFound: boolean;
+	added: string[];
+	skipped: string[];
 }
 
-export interface Relation {
+export interface DeleteObservationsResult {
+	entityName: string;
+	entityFound: boolean;
+	deleted: string[];
+	// Observation ids or contents that matched nothing
+	notFound: Array<number | string>;
+}
+
+// What create_relations did with a relation. missing_source wins when
+// both ends are missing; rejected is for relations that do not fit a
+// strict ontology.
+export type RelationOutcome =
+	| 'created'
+	| 'already_exists'
+	| 'missing_source'
+	| 'missing_target'
+	| 'rejected';
+
+export interface CreateRelationsOptions {
+	// Create entities of this type, without observations, for ends that
+	// do not exist
+	autoCreateEntities?: { entityType: string };
+	// Create every relation or none: a relation to a missing entity, or
+	// one the ontology rejects, fails the whole call instead of being
+	// skipped
+	atomic?: boolean;
+}
+
+export interface CreateRelationResult {
 	from: string;
 	to: string;
 	relationType: string;
+	outcome: RelationOutcome;
+	// Names of the ends that do not exist, for missing_* outcomes
+	missing?: string[];
+	// Why the ontology rejected the relation, and a registered type
+	// that differs only in case or punctuation
+	message?: string;
+	suggestion?: string;
+}
+
+export interface CreateRelationsResult {
+	// In the order the relations were given
+	relations: CreateRelationResult[];
+	// Placeholder entities made by autoCreateEntities
+	createdEntities: string[];
+	// Relations that do not fit the ontology, in warn mode
+	warnings?: OntologyWarning[];
+}
+
+// One recorded state of an entity and what changed since the version
+// before it. Relations are the entity's outgoing relations.
+export interface EntityVersion {
+	version: number;
+	operation: string;
+	changedAt: string;
+	entityType: string | null;
+	deleted: boolean;
+	observationCount: number;
+	addedObservations: string[];
+	removedObservations: string[];
+	addedRelations: Relation[];
+	removedRelations: Relation[];
+}
+
+export interface RestoreEntityResult {
+	entity: Entity | null;
+	restoredVersion: number;
+	// Version recorded for the restore, if anything changed
+	newVersion: number | null;
+	// Outgoing relations not restored because their target is missing
+	skippedRelations: Relation[];
+}
+
+// Which way to follow relations from an entity: "out" from source to
+// target, "in" from target to source, "both" either way
+export type RelationDirection = 'in' | 'out' | 'both';
+
+export interface NeighborhoodOptions {
+	depth?: number;
+	relationTypes?: string[];
+	direction?: RelationDirection;
+	// Cap on the number of entities returned, including the center
+	maxNodes?: number;
+}
+
+export interface FindPathsOptions {
+	maxDepth?: number;
+	relationTypes?: string[];
+	direction?: RelationDirection;
+	limit?: number;
+}
+
+// A path between two entities: the entities in order and the relation
+// joining each consecutive pair, in its stored direction
+export interface GraphPath {
+	length: number;
+	entities: string[];
+	relations: Relation[];
+}
+
+// Size of a namespace, as listed by list_namespaces
+export interface NamespaceSummary {
+	namespace: string;
+	entities: number;
+	observations: number;
+	relations: number;
+}
+
+// Number of entities of each type in a namespace
+export interface EntityTypeSummary {
+	entityType: string;
+	entities: number;
+}
+
+// Entities worth reviewing when cleaning up a namespace. Duplicates
+// are groups of entities whose names differ only in case, spacing or
+// punctuation; orphans are entities without relations.
+export interface CleanupCandidates {
+	duplicates: Array<Array<{ name: string; entityType: string }>>;
+	orphans: Array<{
+		name: string;
+		entityType: string;
+		observations: number;
+	}>;
+	totalOrphans: number;
+}
+
+// Serialisations of a whole graph: "json" is { entities, relations }
+// as returned by read_graph, "jsonl" is the one-record-per-line format
+// of the reference @modelcontextprotocol/server-memory server
+export type GraphFormat = 'json' | 'jsonl';
+
+// How import_graph treats entities and relations that already exist:
+// "replace" makes the namespace match the import exactly, "merge"
+// adds to and overwrites existing data, "skip_existing" leaves it alone
+export type ImportStrategy = 'replace' | 'merge' | 'skip_existing';
+
+export interface ImportGraphOptions {
+	format?: GraphFormat;
+	strategy?: ImportStrategy;
+}
+
+export interface ImportCounts {
+	created: number;
+	updated: number;
+	skipped: number;
+	deleted: number;
+}
+
+export interface ImportGraphResult {
+	strategy: ImportStrategy;
+	entities: ImportCounts;
+	relations: ImportCounts;
+	// Entities and relations that do not fit the ontology, in warn
+	// mode, by their index in the imported entities and relations
+	warnings?: {
+		entities: OntologyWarning[];
+		relations: OntologyWarning[];
+	};
+}
+
+// Diagram formats for render_graph
+export type RenderFormat = 'graphml' | 'dot' | 'mermaid';
+
+// What render_graph draws: the results of a search with query, the
+// neighbourhood of entity, or otherwise the whole graph
+export interface RenderGraphOptions extends NeighborhoodOptions {
+	format: RenderFormat;
+	query?: string;
+	limit?: number;
+	entity?: string;
 }
 
-export interface SearchResult {
+// How merge_entities treats a duplicate's relation that already exists
+// on the primary: "keep_primary" keeps the primary's relation as is,
+// "combine" fills in its unset properties from the duplicate's
+export type MergeStrategy = 'keep_primary' | 'combine';
+
+export interface MergeEntitiesResult {
 	entity: Entity;
-	distance: number;
+	merged: string[];
+	observations: { moved: number; skipped: number };
+	relations: {
+		repointed: number;
+		droppedSelfLoops: number;
+		droppedDuplicates: number;
+	};
+}
+
+// Outcome of rename_entity. With merged, the entity was merged into
+// an existing one of the new name, and the counts are what moved.
+export interface RenameEntityResult {
+	entity: Entity;
+	oldName: string;
+	merged: boolean;
+	observations: number;
+	relations: number;
+}
+
+// Relation condition for search_advanced. target matches outgoing
+// relations to that entity and source incoming ones from it; direction
+// defaults accordingly, or to "both" when neither is given.
+export interface RelationFilter {
+	type?: string;
+	target?: string;
+	source?: string;
+	direction?: RelationDirection;
+}
+
+// Conditions for search_advanced, all of which must hold. Text
+// matches are case-insensitive; namePattern takes * and ? wildcards.
+export interface EntityFilter {
+	entityType?: string | string[];
+	namePattern?: string;
+	observations?: {
+		contains?: string | string[];
+		notContains?: string | string[];
+	};
+	hasRelation?: RelationFilter;
+	lacksRelation?: RelationFilter;
+	createdAfter?: string;
+	createdBefore?: string;
+}
+
+// Cursor pagination: pass the nextCursor of a page as cursor to get
+// the next one, with the same query and options
+export interface PageOptions {
+	limit?: number;
+	cursor?: string;
+}
+
+// Entity orderings for listings: newest first, by name, or by the
+// number of relations touching the entity
+export type EntitySort = 'recent' | 'alphabetical' | 'most-connected';
+
+export interface ListEntitiesOptions extends PageOptions {
+	sort?: EntitySort;
+}
+
+export interface ReadGraphOptions extends ListEntitiesOptions {
+	entityType?: string | string[];
+}
+
+// A page of entities with the relations touching them. nextCursor is
+// left out on the last page; totalCount covers all pages.
+export interface GraphPage<TEntity = Entity> {
+	entities: TEntity[];
+	relations: Relation[];
+	totalCount: number;
+	nextCursor?: string;
+}
+
+// Entities touched by a write, reported to change listeners once the
+// write has been committed
+export interface GraphChange {
+	namespace: string;
+	entities: string[];
+}
+
+// Granularity of the growth figures in memory_stats
+export type StatsPeriod = 'day' | 'week' | 'month';
+
+export interface StatsOptions {
+	// Length of each entity list (default 10, max 50)
+	limit?: number;
+	period?: StatsPeriod;
+}
+
+export interface EntityDegree {
+	name: string;
+	entityType: string;
+	degree: number;
+	namespace?: string;
+}
+
+export interface MemoryStats {
+	namespace: string;
+	counts: {
+		entities: number;
+		observations: number;
+		relations: number;
+	};
+	entityTypes: Array<{ entityType: string; count: number }>;
+	relationTypes: Array<{ relationType: string; count: number }>;
+	// Entities with the most relations touching them
+	topEntities: EntityDegree[];
+	orphans: {
+		count: number;
+		entities: Array<Omit<EntityDegree, 'degree'>>;
+	};
+	singleObservation: {
+		count: number;
+		entities: Array<Omit<EntityDegree, 'degree'>>;
+	};
+	// Sizes of the whole database file and its WAL, in bytes
+	storage: { databaseBytes: number; walBytes: number };
+	// Entities, observations and relations created in each of the most
+	// recent periods, oldest first, with running entity totals
+	growth: Array<{
+		period: string;
+		entities: number;
+		observations: number;
+		relations: number;
+		totalEntities: number;
+	}>;
+}
+
+export interface IntegrityOptions {
+	// Fix what was found, in one transaction
+	repair?: boolean;
+	// Length of each issue list (default 10, max 50)
+	limit?: number;
+}
+
+// Issues of one kind: how many there are, and the first limit of them
+export interface IntegrityIssues<T> {
+	count: number;
+	items: T[];
+}
+
+export interface IntegrityReport {
+	namespace: string;
+	// True when none of the checks found anything
+	ok: boolean;
+	// Messages from PRAGMA integrity_check, for the whole database.
+	// These are not repaired.
+	integrityErrors: string[];
+	// Rows reported by PRAGMA foreign_key_check, for the whole database
+	foreignKeyViolations: Array<{
+		table: string;
+		rowid: number;
+		parent: string;
+	}>;
+	// Relations whose source or target entity does not exist
+	danglingRelations: IntegrityIssues<{
+		id: number;
+		from: string;
+		to: string;
+		relationType: string;
+		missing: Array<'from' | 'to'>;
+		namespace?: string;
+	}>;
+	// Observations of entities that do not exist
+	orphanObservations: IntegrityIssues<{
+		id: number;
+		entityName: string;
+		content: string;
+		namespace?: string;
+	}>;
+	// Observations repeated on one entity, listed with the ids of every
+	// copy, oldest first. count is the number of surplus copies, the
+	// rows a repair deletes; groups is how many observations are
+	// repeated, each listed once.
+	duplicateObservations: IntegrityIssues<{
+		entityName: string;
+		content: string;
+		ids: number[];
+		namespace?: string;
+	}> & { groups: number };
+	// Entities whose name or type is empty or whitespace only
+	blankNames: IntegrityIssues<{
+		name: string;
+		entityType: string;
+		namespace?: string;
+	}>;
+	blankEntityTypes: IntegrityIssues<{
+		name: string;
+		entityType: string;
+		namespace?: string;
+	}>;
+	// Relations whose type is empty or whitespace only
+	blankRelationTypes: IntegrityIssues<{
+		id: number;
+		from: string;
+		to: string;
+		relationType: string;
+		namespace?: string;
+	}>;
+	// Rows changed, when repair was requested
+	repaired?: IntegrityRepairCounts;
+}
+
+// Rows deleted or updated by a repair, per kind of issue. Deleting an
+// entity with a blank name takes its observations and relations with
+// it; those are not counted separately.
+export interface IntegrityRepairCounts {
+	danglingRelations: number;
+	orphanObservations: number;
+	duplicateObservations: number;
+	blankNames: number;
+	blankEntityTypes: number;
+	blankRelationTypes: number;
+}
+
+// How writes are checked against registered types: not at all, with
+// warnings returned alongside the result, or by failing the write
+export type OntologyMode = 'off' | 'warn' | 'strict';
+
+export interface EntityTypeDefinition {
+	name: string;
+	description?: string;
+}
+
+export interface RelationTypeDefinition {
+	name: string;
+	description?: string;
+	// Entity types allowed at each end (domain and range); unset
+	// allows any
+	sourceTypes?: string[];
+	targetTypes?: string[];
+	// Holds in both directions, like "married_to"
+	symmetric?: boolean;
+	// Name of the same relation read the other way, like "employs" for
+	// "works_for"
+	inverse?: string;
+}
+
+export interface RegisterTypesResult {
+	entityTypes: { created: string[]; updated: string[] };
+	relationTypes: { created: string[]; updated: string[] };
 }
+
+// A write that does not fit the ontology, reported in warn mode.
+// index is the position of the item in the write.
+export interface OntologyWarning {
+	index: number;
+	message: string;
+	// A registered type that differs only in case or punctuation
+	suggestion?: string;
+}
+
+export interface OntologySummary {
+	mode: OntologyMode;
+	entityTypes: Array<EntityTypeDefinition & { entities: number }>;
+	relationTypes: Array<
+		RelationTypeDefinition & { relations: number }
+	>;
+	// Types in use that are not registered
+	unregistered: {
+		entityTypes: Array<{ name: string; entities: number }>;
+		relationTypes: Array<{ name: string; relations: number }>;
+	};
+}
+
+export type TypeKind = 'entity' | 'relation';
+
+export type TypeDescription =
+	| (EntityTypeDefinition & {
+			kind: 'entity';
+			registered: boolean;
+			entities: number;
+			// Up to five entity names of the type
+			examples: string[];
+			// Registered relation types allowed from and to the type
+			asSource: string[];
+			asTarget: string[];
+			// Registered or used types differing only in case or
+			// punctuation
+			similar: string[];
+	  })
+	| (RelationTypeDefinition & {
+			kind: 'relation';
+			registered: boolean;
+			relations: number;
+			examples: Array<{ from: string; to: string }>;
+			similar: string[];
+	  });